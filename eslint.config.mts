@@ -27,6 +27,7 @@ export default tseslint.config(
 		"node_modules",
 		"dist",
 		"esbuild.config.mjs",
+		"vitest.config.mjs",
 		"eslint.config.js",
 		"version-bump.mjs",
 		"versions.json",
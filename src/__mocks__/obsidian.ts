@@ -0,0 +1,15 @@
+/**
+ * Runtime stand-in for the obsidian package in unit tests
+ * The package only ships type definitions; Obsidian provides the module when the plugin runs.
+ * vitest.config.mjs resolves 'obsidian' imports to this file.
+ */
+
+export function requestUrl(): never {
+	throw new Error('requestUrl is not available in unit tests');
+}
+
+export function arrayBufferToBase64(): never {
+	throw new Error('arrayBufferToBase64 is not available in unit tests');
+}
+
+export class TFile {}
@@ -1,13 +1,55 @@
+import type { EventRef } from 'obsidian';
+import type { Conversation } from './models/Conversation';
+import type { LLMProvider } from './providers/LLMProvider';
+import type { LLMErrors } from './errors';
 import type {
 	CompletionOptions,
+	ConversationOptions,
+	SerializedConversation,
+	AgentOptions,
+	AgentResult,
 	CompletionResult,
 	StreamOptions,
+	EmbeddingOptions,
+	EmbeddingResult,
+	SimilarityResult,
+	EmbeddingNamespace,
+	UsageQuery,
+	UsageSummary,
+	ConnectorEventMap,
 	Model,
 	ModelCriteria,
 	ModelFilter,
 	Provider,
+	ProviderConfig,
+	ProviderConfigField,
 } from './types';
 
+/**
+ * Classes a provider factory can build on
+ * Third-party providers extend LLMProvider to get request handling, retries and error mapping.
+ */
+export interface ProviderSDK {
+	LLMProvider: typeof LLMProvider;
+	errors: typeof LLMErrors;
+}
+
+/**
+ * Provider contributed by another plugin through registerProvider()
+ */
+export interface ProviderFactory {
+	id: string;  // Provider ID, must match the created provider's id
+	name: string;  // Display name in settings
+	description?: string;
+	configFields?: ProviderConfigField[];  // Settings shown when the provider is enabled
+	defaultConfig?: Partial<ProviderConfig>;  // Used until the user changes the settings
+
+	/**
+	 * Create the provider from its stored configuration
+	 */
+	create(config: ProviderConfig, sdk: ProviderSDK): LLMProvider;
+}
+
 /**
  * Public API exposed to other Obsidian plugins
  * This is the interface other plugins will use to access LLM functionality
@@ -26,6 +68,40 @@ export interface LLMConnectorAPI {
 	 */
 	version: string;
 
+	/**
+	 * Error classes thrown by the API, for instanceof checks
+	 * Every error carries a machine-readable `code`, plus `provider`, `model` and `retryable`.
+	 *
+	 * @example
+	 * ```typescript
+	 * try {
+	 *   await api.complete({ prompt: "..." });
+	 * } catch (error) {
+	 *   if (error instanceof api.errors.RateLimitError) {
+	 *     retryLater(error.retryAfterMs);
+	 *   } else if (error instanceof api.errors.LLMConnectorError && error.code === "authentication") {
+	 *     new Notice(`Check your ${error.provider} API key`);
+	 *   }
+	 * }
+	 * ```
+	 */
+	errors: typeof LLMErrors;
+
+	/**
+	 * Get a client whose requests are attributed to your plugin
+	 * Usage is recorded under the plugin id, and the access rules the user set for
+	 * the plugin apply (blocked plugins, cloud providers, allowed providers and tiers).
+	 * If the user asked to confirm new plugins, the first request waits for their answer.
+	 * `getUsage()` on the client returns the plugin's own usage.
+	 *
+	 * @example
+	 * ```typescript
+	 * const llm = this.app.plugins.plugins['llm-connector']?.api?.forPlugin(this.manifest.id);
+	 * const result = await llm.complete({ prompt: "Summarize this note" });
+	 * ```
+	 */
+	forPlugin(pluginId: string): LLMConnectorAPI;
+
 	/**
 	 * Generate a text completion
 	 * 
@@ -38,6 +114,17 @@ export interface LLMConnectorAPI {
 	 *   temperature: 0.7
 	 * });
 	 * console.log(result.text);
+	 *
+	 * // Multi-turn conversation
+	 * const reply = await api.complete({
+	 *   messages: [
+	 *     { role: "system", content: "You are a helpful assistant" },
+	 *     { role: "user", content: "What is a monad?" },
+	 *     { role: "assistant", content: "A monad is..." },
+	 *     { role: "user", content: "Show an example in TypeScript" }
+	 *   ],
+	 *   tier: "balanced"
+	 * });
 	 * ```
 	 */
 	complete(options: CompletionOptions): Promise<CompletionResult>;
@@ -60,6 +147,126 @@ export interface LLMConnectorAPI {
 	 */
 	stream(options: StreamOptions): AsyncGenerator<string, void, unknown>;
 
+	/**
+	 * Generate embeddings for one or more texts
+	 * Uses the embedding tier unless `model` or `tier` is given. Large inputs
+	 * are split into batches the provider accepts; vectors keep input order.
+	 *
+	 * @example
+	 * ```typescript
+	 * const { embeddings, dimensions, model } = await api.embed({
+	 *   input: ["First note", "Second note"]
+	 * });
+	 * console.log(`${embeddings.length} vectors of ${dimensions} dimensions from ${model}`);
+	 * ```
+	 */
+	embed(options: EmbeddingOptions): Promise<EmbeddingResult>;
+
+	/**
+	 * Namespace ("provider:model") of the model assigned to the embedding tier
+	 * Store it next to your vectors and compare later with isEmbeddingCompatible().
+	 *
+	 * @returns Current namespace (with dimensions once known), or null if the tier is not configured
+	 */
+	getEmbeddingNamespace(): EmbeddingNamespace | null;
+
+	/**
+	 * Check whether stored vectors can be compared with new embeddings
+	 *
+	 * @param namespace `EmbeddingResult.namespace` the vectors were created with
+	 * @param dimensions Vector length, checked when known
+	 * @returns false if the embedding tier now uses a different model
+	 *
+	 * @example
+	 * ```typescript
+	 * if (!api.isEmbeddingCompatible(store.namespace, store.dimensions)) {
+	 *   await rebuildStore();
+	 * }
+	 * ```
+	 */
+	isEmbeddingCompatible(namespace: string, dimensions?: number): boolean;
+
+	/**
+	 * Find the note chunks most similar to a query in the shared embedding index
+	 * The index is optional - users enable it in LLM Connector settings.
+	 *
+	 * @param query Text to search for
+	 * @param k Number of results (default 5)
+	 * @throws InvalidRequestError if the embedding index is disabled
+	 *
+	 * @example
+	 * ```typescript
+	 * const results = await api.searchSimilar("spaced repetition", 10);
+	 * for (const { path, text, score } of results) {
+	 *   console.log(`${path} (${score.toFixed(2)}): ${text.slice(0, 80)}`);
+	 * }
+	 * ```
+	 */
+	searchSimilar(query: string, k?: number): Promise<SimilarityResult[]>;
+
+	/**
+	 * Create a conversation session that keeps its own message history
+	 *
+	 * @example
+	 * ```typescript
+	 * const chat = api.createConversation({
+	 *   tier: "balanced",
+	 *   systemPrompt: "You are a helpful assistant"
+	 * });
+	 * await chat.send("What is Zettelkasten?");
+	 * const reply = await chat.send("How do I start one in Obsidian?");
+	 *
+	 * // Persist and restore later
+	 * this.settings.chat = chat.toJSON();
+	 * const restored = api.restoreConversation(this.settings.chat);
+	 * ```
+	 */
+	createConversation(options?: ConversationOptions): Conversation;
+
+	/**
+	 * Restore a conversation from data produced by `Conversation.toJSON()`
+	 */
+	restoreConversation(data: SerializedConversation): Conversation;
+
+	/**
+	 * Let the model call tools until it gives a final answer
+	 * Each step is a regular completion (tier routing and fallback apply); requested
+	 * tools are run through their handlers and the results sent back to the model.
+	 * Stops when the model answers without calling tools or after `maxSteps` (default 10).
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await api.runAgent({
+	 *   prompt: "Create a task for every open question in my meeting notes from today",
+	 *   tier: "advanced",
+	 *   tools: [{
+	 *     name: "create_task",
+	 *     description: "Add a task to the task list",
+	 *     parameters: { type: "object", properties: { text: { type: "string" } }, required: ["text"] },
+	 *     handler: async ({ text }) => this.addTask(String(text))
+	 *   }],
+	 *   onStep: (step) => console.log(`Step ${step.index}: ${step.toolResults.length} tool calls`)
+	 * });
+	 * console.log(result.text, result.finishReason);
+	 * ```
+	 */
+	runAgent(options: AgentOptions): Promise<AgentResult>;
+
+	/**
+	 * Aggregate recorded requests (tokens, estimated cost, latency, fallbacks)
+	 * Requests are attributed to the forPlugin() client that sent them, and only the caller's
+	 * own usage is returned: the shared API only sees requests recorded as "unknown".
+	 * Costs are estimates from the model's listed prices; local models cost 0.
+	 *
+	 * @example
+	 * ```typescript
+	 * const monthStart = new Date(new Date().getFullYear(), new Date().getMonth(), 1).getTime();
+	 * const usage = api.forPlugin(this.manifest.id).getUsage({ from: monthStart, groupBy: "model" });
+	 * console.log(`$${usage.cost.toFixed(2)} for ${usage.requests} requests`, usage.groups);
+	 * ```
+	 */
+	getUsage(query?: UsageQuery): UsageSummary;
+
 	/**
 	 * Find a model matching criteria
 	 * 
@@ -109,4 +316,52 @@ export interface LLMConnectorAPI {
 	 * @returns True if at least one provider is configured and enabled
 	 */
 	isReady(): boolean;
+
+	/**
+	 * Add a provider from your plugin
+	 * The provider gets a section in LLM Connector settings (enable toggle, your
+	 * `configFields`, timeout and retries); its configuration is stored in the
+	 * connector's settings and passed to `create()` again on the next registration.
+	 *
+	 * @returns Function that removes the provider - pass it to `this.register()` so it runs on unload
+	 * @throws InvalidRequestError if the ID is invalid, built in or already registered
+	 *
+	 * @example
+	 * ```typescript
+	 * this.register(api.registerProvider({
+	 *   id: "my-llm",
+	 *   name: "My LLM",
+	 *   configFields: [{ key: "apiKey", name: "API key", type: "password" }],
+	 *   create: (config, { LLMProvider }) => new (class extends LLMProvider {
+	 *     get id() { return "my-llm"; }
+	 *     get name() { return "My LLM"; }
+	 *     // connect(), listModels(), complete() ...
+	 *   })(config)
+	 * }));
+	 * ```
+	 */
+	registerProvider(factory: ProviderFactory): () => void;
+
+	/**
+	 * Subscribe to connector events
+	 * Pass the returned ref to your plugin's `registerEvent()` so it is removed on unload.
+	 *
+	 * Events:
+	 * - `embedding-model-changed`: the embedding tier now uses another model (or none);
+	 *   vectors created with the previous model should be invalidated or rebuilt
+	 *
+	 * @example
+	 * ```typescript
+	 * this.registerEvent(api.on("embedding-model-changed", ({ previous, current }) => {
+	 *   console.log(`Embeddings switched from ${previous?.id} to ${current?.id}`);
+	 *   this.rebuildStore();
+	 * }));
+	 * ```
+	 */
+	on<K extends keyof ConnectorEventMap>(name: K, callback: (...data: ConnectorEventMap[K]) => unknown): EventRef;
+
+	/**
+	 * Unsubscribe from a connector event
+	 */
+	offref(ref: EventRef): void;
 }
@@ -0,0 +1,278 @@
+import type { Budget, PerformanceTier } from './types';
+
+/**
+ * Error classes exposed to consumer plugins
+ * Every error thrown by the public API is an LLMConnectorError with a
+ * machine-readable `code`. Consumers should branch on `code` (or use
+ * `api.errors.X` for instanceof checks) instead of parsing messages.
+ */
+
+/**
+ * Machine-readable error codes
+ */
+export type LLMErrorCode =
+	| 'authentication'
+	| 'rate_limit'
+	| 'quota_exceeded'
+	| 'context_length_exceeded'
+	| 'model_not_found'
+	| 'tier_not_configured'
+	| 'provider_not_configured'
+	| 'provider_unreachable'
+	| 'timeout'
+	| 'aborted'
+	| 'invalid_request'
+	| 'invalid_response'
+	| 'budget_exceeded'
+	| 'permission_denied'
+	| 'provider_error';
+
+/**
+ * Context attached to an error
+ */
+export interface LLMErrorDetails {
+	provider?: string;
+	model?: string;
+	cause?: unknown;
+}
+
+/**
+ * Base class for all LLM Connector errors
+ * Subclasses set `name` explicitly - class names don't survive minification.
+ */
+export abstract class LLMConnectorError extends Error {
+	abstract readonly code: LLMErrorCode;
+	readonly provider?: string;
+	readonly model?: string;
+	readonly cause?: unknown;
+
+	/**
+	 * Whether the same request may succeed if retried later
+	 */
+	get retryable(): boolean {
+		return false;
+	}
+
+	constructor(message: string, details: LLMErrorDetails = {}) {
+		super(message);
+		this.provider = details.provider;
+		this.model = details.model;
+		this.cause = details.cause;
+	}
+}
+
+/**
+ * Invalid or missing API key
+ */
+export class AuthenticationError extends LLMConnectorError {
+	readonly code = 'authentication';
+	readonly name: string = 'AuthenticationError';
+}
+
+/**
+ * Too many requests - retry after a while
+ */
+export class RateLimitError extends LLMConnectorError {
+	readonly code = 'rate_limit';
+	readonly name: string = 'RateLimitError';
+
+	constructor(message: string, details: LLMErrorDetails & { retryAfterMs?: number } = {}) {
+		super(message, details);
+		this.retryAfterMs = details.retryAfterMs;
+	}
+
+	readonly retryAfterMs?: number;
+
+	get retryable(): boolean {
+		return true;
+	}
+}
+
+/**
+ * Out of credits or quota on the provider account
+ */
+export class QuotaExceededError extends LLMConnectorError {
+	readonly code = 'quota_exceeded';
+	readonly name: string = 'QuotaExceededError';
+}
+
+/**
+ * Request does not fit into the model's context window
+ * Thrown by the connector (strategy 'reject' or trimming not enough)
+ * or by the provider.
+ */
+export class ContextLengthExceededError extends LLMConnectorError {
+	readonly code = 'context_length_exceeded';
+	readonly name: string = 'ContextLengthExceededError';
+	readonly estimatedTokens?: number;
+	readonly contextWindow?: number;
+
+	constructor(
+		message: string,
+		details: LLMErrorDetails & { estimatedTokens?: number; contextWindow?: number } = {}
+	) {
+		super(message, details);
+		this.estimatedTokens = details.estimatedTokens;
+		this.contextWindow = details.contextWindow;
+	}
+}
+
+/**
+ * Model is not known to the connector or not available at the provider
+ */
+export class ModelNotFoundError extends LLMConnectorError {
+	readonly code = 'model_not_found';
+	readonly name: string = 'ModelNotFoundError';
+}
+
+/**
+ * Neither the requested tier nor any tier in its fallback chain has a model
+ */
+export class TierNotConfiguredError extends LLMConnectorError {
+	readonly code = 'tier_not_configured';
+	readonly name: string = 'TierNotConfiguredError';
+
+	constructor(public readonly tier: PerformanceTier, message: string) {
+		super(message);
+	}
+}
+
+/**
+ * Provider is not registered, disabled or missing required settings
+ */
+export class ProviderNotConfiguredError extends LLMConnectorError {
+	readonly code = 'provider_not_configured';
+	readonly name: string = 'ProviderNotConfiguredError';
+}
+
+/**
+ * Provider could not be reached (network error, server down)
+ */
+export class ProviderUnreachableError extends LLMConnectorError {
+	readonly code: LLMErrorCode = 'provider_unreachable';
+	readonly name: string = 'ProviderUnreachableError';
+
+	get retryable(): boolean {
+		return true;
+	}
+}
+
+/**
+ * Provider did not respond within the configured timeout
+ */
+export class TimeoutError extends ProviderUnreachableError {
+	readonly code = 'timeout';
+	readonly name: string = 'TimeoutError';
+}
+
+/**
+ * Request was cancelled through CompletionOptions.abortSignal
+ * Uses the DOM name so `error.name === 'AbortError'` checks keep working.
+ */
+export class AbortError extends LLMConnectorError {
+	readonly code = 'aborted';
+	readonly name: string = 'AbortError';
+
+	constructor(message = 'Request was aborted', details: LLMErrorDetails = {}) {
+		super(message, details);
+	}
+}
+
+/**
+ * Request options are invalid (e.g. no prompt or messages)
+ */
+export class InvalidRequestError extends LLMConnectorError {
+	readonly code = 'invalid_request';
+	readonly name: string = 'InvalidRequestError';
+}
+
+/**
+ * Model output did not match the requested responseFormat, even after retries
+ */
+export class InvalidResponseError extends LLMConnectorError {
+	readonly code = 'invalid_response';
+	readonly name: string = 'InvalidResponseError';
+	readonly text: string;
+	readonly validationErrors: string[];
+
+	constructor(message: string, details: LLMErrorDetails & { text: string; validationErrors: string[] }) {
+		super(message, details);
+		this.text = details.text;
+		this.validationErrors = details.validationErrors;
+	}
+}
+
+/**
+ * A spending limit set in the connector's settings has been reached
+ * With action 'fallback_local' this is only thrown when no connected free model can take the request.
+ */
+export class BudgetExceededError extends LLMConnectorError {
+	readonly code = 'budget_exceeded';
+	readonly name: string = 'BudgetExceededError';
+	readonly budget: Budget;
+	readonly spent: number;
+
+	constructor(message: string, details: LLMErrorDetails & { budget: Budget; spent: number }) {
+		super(message, details);
+		this.budget = details.budget;
+		this.spent = details.spent;
+	}
+}
+
+/**
+ * The user hasn't allowed the calling plugin to make this request
+ * Either the plugin is blocked (or wasn't confirmed), or the route it needs
+ * uses a provider or tier it may not use.
+ */
+export class PermissionDeniedError extends LLMConnectorError {
+	readonly code = 'permission_denied';
+	readonly name: string = 'PermissionDeniedError';
+	readonly pluginId: string;
+
+	constructor(message: string, details: LLMErrorDetails & { pluginId: string }) {
+		super(message, details);
+		this.pluginId = details.pluginId;
+	}
+}
+
+/**
+ * Any other provider failure (server error, overloaded, bad response)
+ */
+export class ProviderError extends LLMConnectorError {
+	readonly code = 'provider_error';
+	readonly name: string = 'ProviderError';
+	readonly status?: number;
+	private readonly isRetryable: boolean;
+
+	constructor(message: string, details: LLMErrorDetails & { status?: number; retryable?: boolean } = {}) {
+		super(message, details);
+		this.status = details.status;
+		this.isRetryable = details.retryable ?? false;
+	}
+
+	get retryable(): boolean {
+		return this.isRetryable;
+	}
+}
+
+/**
+ * Error classes, exposed on the public API as `api.errors`
+ */
+export const LLMErrors = {
+	LLMConnectorError,
+	AuthenticationError,
+	RateLimitError,
+	QuotaExceededError,
+	ContextLengthExceededError,
+	ModelNotFoundError,
+	TierNotConfiguredError,
+	ProviderNotConfiguredError,
+	ProviderUnreachableError,
+	TimeoutError,
+	AbortError,
+	InvalidRequestError,
+	InvalidResponseError,
+	BudgetExceededError,
+	PermissionDeniedError,
+	ProviderError,
+};
@@ -1,33 +1,83 @@
-import { Plugin, Notice } from 'obsidian';
+import { Plugin, Notice, Events, normalizePath } from 'obsidian';
+import type { EventRef } from 'obsidian';
 import { ProviderManager } from './models/ProviderManager';
 import { ModelRegistry } from './models/ModelRegistry';
 import { TierResolver } from './models/TierResolver';
+import { Conversation } from './models/Conversation';
+import { AgentRunner } from './models/AgentRunner';
+import { ContextManager } from './models/ContextManager';
+import { RequestRouter } from './models/RequestRouter';
+import { VectorIndex } from './models/VectorIndex';
+import { UsageLedger, UNKNOWN_PLUGIN_ID } from './models/UsageLedger';
+import { BudgetManager } from './models/BudgetManager';
+import { PermissionManager } from './models/PermissionManager';
 import { NotificationManager } from './utils/NotificationManager';
+import { InvalidRequestError, LLMErrors } from './errors';
+import { LLMProvider } from './providers/LLMProvider';
 import { OllamaProvider } from './providers/OllamaProvider';
 import { OpenRouterProvider } from './providers/OpenRouterProvider';
 import { OpenAIProvider } from './providers/OpenAIProvider';
 import { AnthropicProvider } from './providers/AnthropicProvider';
+import { GeminiProvider } from './providers/GeminiProvider';
+import { MistralProvider } from './providers/MistralProvider';
+import { GroqProvider } from './providers/GroqProvider';
+import { AzureOpenAIProvider } from './providers/AzureOpenAIProvider';
+import { OpenAICompatibleProvider, createCompatibleProviderId } from './providers/OpenAICompatibleProvider';
 import { LLMConnectorSettingTab } from './ui/LLMConnectorSettingTab';
-import type { LLMConnectorAPI } from './api';
+import { PluginPermissionModal } from './ui/PluginPermissionModal';
+import { setProviderDisplayName } from './ui/ModelSelectorModal';
+import type { LLMConnectorAPI, ProviderFactory } from './api';
 import type { LLMConnectorSettings } from './settings';
 import { DEFAULT_SETTINGS, DEFAULT_PROVIDER_CONFIGS } from './settings';
 import type {
 	CompletionOptions,
 	CompletionResult,
 	StreamOptions,
+	EmbeddingOptions,
+	EmbeddingResult,
+	ConversationOptions,
+	SerializedConversation,
+	AgentOptions,
+	AgentResult,
 	ModelCriteria,
 	ModelFilter,
 	Model,
+	PerformanceTier,
 	Provider,
+	ProviderConfig,
+	SimilarityResult,
+	EmbeddingNamespace,
+	UsageQuery,
+	UsageSummary,
+	ConnectorEventMap,
 } from './types';
 
+/**
+ * Provider IDs are used in "provider:model" values, so they can't contain colons
+ */
+const PROVIDER_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
 export default class LLMConnectorPlugin extends Plugin {
 	settings: LLMConnectorSettings;
 	public api: LLMConnectorAPI;
 	private providerManager: ProviderManager;
 	private modelRegistry: ModelRegistry;
 	private tierResolver: TierResolver;
+	private contextManager: ContextManager;
 	private notificationManager: NotificationManager;
+	private requestRouter: RequestRouter;
+	vectorIndex: VectorIndex;
+	usageLedger: UsageLedger;
+	budgetManager: BudgetManager;
+	private permissionManager: PermissionManager;
+	// Scoped clients handed out by forPlugin(), one per plugin id
+	private scopedAPIs = new Map<string, LLMConnectorAPI>();
+	// Providers added by other plugins through registerProvider()
+	private customProviders = new Map<string, ProviderFactory>();
+	private events: Events;
+	private embeddingNamespace: EmbeddingNamespace | null = null;
+	// The embedding index only starts once the vault has loaded
+	private layoutReady = false;
 
 	async onload(): Promise<void> {
 		console.debug('Loading LLM Connector Plugin');
@@ -39,11 +89,48 @@ export default class LLMConnectorPlugin extends Plugin {
 		this.providerManager = new ProviderManager();
 		this.modelRegistry = new ModelRegistry();
 		this.tierResolver = new TierResolver(this.settings);
+		this.contextManager = new ContextManager(this.settings.contextStrategy);
 		this.notificationManager = new NotificationManager(
 			this.settings.fallbackNotification,
 			this.settings.showOncePerSession
 		);
 
+		this.usageLedger = new UsageLedger(
+			this.app,
+			normalizePath(`${this.manifest.dir ?? ''}/usage-ledger.json`)
+		);
+		await this.usageLedger.load();
+		this.budgetManager = new BudgetManager(this.usageLedger, this.notificationManager, this.settings);
+		this.permissionManager = new PermissionManager(
+			this.settings,
+			(pluginId: string) => this.confirmPlugin(pluginId),
+			() => this.saveSettings()
+		);
+
+		this.requestRouter = new RequestRouter(
+			this.providerManager,
+			this.modelRegistry,
+			this.tierResolver,
+			this.contextManager,
+			this.notificationManager,
+			this.settings,
+			this.app.vault,
+			this.usageLedger,
+			this.budgetManager,
+			this.permissionManager
+		);
+
+		this.events = new Events();
+		this.embeddingNamespace = this.requestRouter.getEmbeddingNamespace();
+
+		this.vectorIndex = new VectorIndex(
+			this.app,
+			(options: EmbeddingOptions) => this.requestRouter.embedInternal(options, this.manifest.id),
+			() => this.requestRouter.getEmbeddingNamespace(),
+			normalizePath(`${this.manifest.dir ?? ''}/embedding-index.json`)
+		);
+		this.registerVectorIndexEvents();
+
 		// Load provider configurations into manager
 		this.providerManager.loadConfigs(this.settings.providers);
 
@@ -72,6 +159,13 @@ export default class LLMConnectorPlugin extends Plugin {
 
 	onunload(): void {
 		console.debug('Unloading LLM Connector Plugin');
+
+		this.vectorIndex.flush().catch((error: unknown) => {
+			console.error('Failed to save embedding index:', error);
+		});
+		this.usageLedger.flush().catch((error: unknown) => {
+			console.error('Failed to save usage ledger:', error);
+		});
 	}
 
 	/**
@@ -90,10 +184,90 @@ export default class LLMConnectorPlugin extends Plugin {
 		
 		// Update managers with new settings
 		this.tierResolver.updateSettings(this.settings);
+		this.contextManager.updateStrategy(this.settings.contextStrategy);
+		this.requestRouter.updateSettings(this.settings);
+		this.budgetManager.updateSettings(this.settings);
+		this.permissionManager.updateSettings(this.settings);
 		this.notificationManager.updatePreferences(
 			this.settings.fallbackNotification,
 			this.settings.showOncePerSession
 		);
+
+		this.checkEmbeddingModel();
+
+		if (!this.layoutReady) {
+			return;
+		}
+		if (this.settings.embeddingIndexEnabled !== this.vectorIndex.getStatus().enabled) {
+			await (this.settings.embeddingIndexEnabled ? this.vectorIndex.enable() : this.vectorIndex.disable());
+		} else {
+			// A changed key, tier or model list may fix what stopped the index
+			this.vectorIndex.retryPending();
+		}
+	}
+
+	/**
+	 * Notify consumers when the embedding tier points to another model
+	 * Their stored vectors are no longer comparable with new ones.
+	 */
+	private checkEmbeddingModel(): void {
+		const previous = this.embeddingNamespace;
+		const current = this.requestRouter.getEmbeddingNamespace();
+		if (previous?.id === current?.id) {
+			return;
+		}
+
+		this.embeddingNamespace = current;
+		console.debug(`Embedding model changed: ${previous?.id ?? 'none'} → ${current?.id ?? 'none'}`);
+
+		this.vectorIndex.onEmbeddingModelChanged(current);
+		this.trigger('embedding-model-changed', { previous, current });
+	}
+
+	/**
+	 * Ask the user whether a plugin may use the connector
+	 */
+	private confirmPlugin(pluginId: string): Promise<boolean | null> {
+		return new Promise(resolve => {
+			new PluginPermissionModal(this.app, this.getPluginName(pluginId), resolve).open();
+		});
+	}
+
+	/**
+	 * Display name of an installed plugin, falling back to its id
+	 */
+	getPluginName(pluginId: string): string {
+		const plugins = (this.app as unknown as { plugins?: { manifests?: Record<string, { name?: string }> } }).plugins;
+		return plugins?.manifests?.[pluginId]?.name ?? pluginId;
+	}
+
+	/**
+	 * Trigger a public API event
+	 */
+	private trigger<K extends keyof ConnectorEventMap>(name: K, ...data: ConnectorEventMap[K]): void {
+		this.events.trigger(name, ...data);
+	}
+
+	/**
+	 * Keep the embedding index in sync with the vault
+	 * The index ignores events while disabled; it starts once the vault has loaded,
+	 * so the initial 'create' events for existing files are not treated as changes.
+	 */
+	private registerVectorIndexEvents(): void {
+		this.registerEvent(this.app.vault.on('create', file => this.vectorIndex.onModify(file)));
+		this.registerEvent(this.app.vault.on('modify', file => this.vectorIndex.onModify(file)));
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.vectorIndex.onRename(file, oldPath)));
+		this.registerEvent(this.app.vault.on('delete', file => this.vectorIndex.onDelete(file)));
+
+		this.app.workspace.onLayoutReady(() => {
+			this.layoutReady = true;
+			if (!this.settings.embeddingIndexEnabled) {
+				return;
+			}
+			this.vectorIndex.enable().catch((error: unknown) => {
+				console.error('Failed to start embedding index:', error);
+			});
+		});
 	}
 
 	/**
@@ -219,6 +393,61 @@ export default class LLMConnectorPlugin extends Plugin {
 			}
 		}
 
+		// Initialize Gemini provider config if not present
+		if (!this.settings.providers['gemini']) {
+			const defaultConfig = DEFAULT_PROVIDER_CONFIGS['gemini'];
+			if (defaultConfig) {
+				this.settings.providers['gemini'] = {
+					id: 'gemini',
+					enabled: false,
+					baseUrl: defaultConfig.baseUrl ?? 'https://generativelanguage.googleapis.com/v1beta',
+					timeout: defaultConfig.timeout ?? 30000,
+					maxRetries: defaultConfig.maxRetries ?? 3,
+				};
+			}
+		}
+
+		// Initialize Mistral provider config if not present
+		if (!this.settings.providers['mistral']) {
+			const defaultConfig = DEFAULT_PROVIDER_CONFIGS['mistral'];
+			if (defaultConfig) {
+				this.settings.providers['mistral'] = {
+					id: 'mistral',
+					enabled: false,
+					baseUrl: defaultConfig.baseUrl ?? 'https://api.mistral.ai/v1',
+					timeout: defaultConfig.timeout ?? 30000,
+					maxRetries: defaultConfig.maxRetries ?? 3,
+				};
+			}
+		}
+
+		// Initialize Groq provider config if not present
+		if (!this.settings.providers['groq']) {
+			const defaultConfig = DEFAULT_PROVIDER_CONFIGS['groq'];
+			if (defaultConfig) {
+				this.settings.providers['groq'] = {
+					id: 'groq',
+					enabled: false,
+					baseUrl: defaultConfig.baseUrl ?? 'https://api.groq.com/openai/v1',
+					timeout: defaultConfig.timeout ?? 30000,
+					maxRetries: defaultConfig.maxRetries ?? 3,
+				};
+			}
+		}
+
+		// Initialize Azure OpenAI provider config if not present (no default endpoint)
+		if (!this.settings.providers['azure-openai']) {
+			const defaultConfig = DEFAULT_PROVIDER_CONFIGS['azure-openai'];
+			if (defaultConfig) {
+				this.settings.providers['azure-openai'] = {
+					id: 'azure-openai',
+					enabled: false,
+					timeout: defaultConfig.timeout ?? 30000,
+					maxRetries: defaultConfig.maxRetries ?? 3,
+				};
+			}
+		}
+
 		// Register Ollama provider
 		const ollamaConfig = this.settings.providers['ollama'];
 		if (ollamaConfig) {
@@ -250,159 +479,265 @@ export default class LLMConnectorPlugin extends Plugin {
 			this.providerManager.register(anthropicProvider);
 			console.debug('Registered Anthropic provider');
 		}
+
+		// Register Gemini provider
+		const geminiConfig = this.settings.providers['gemini'];
+		if (geminiConfig) {
+			const geminiProvider = new GeminiProvider(geminiConfig);
+			this.providerManager.register(geminiProvider);
+			console.debug('Registered Gemini provider');
+		}
+
+		// Register Mistral provider
+		const mistralConfig = this.settings.providers['mistral'];
+		if (mistralConfig) {
+			const mistralProvider = new MistralProvider(mistralConfig);
+			this.providerManager.register(mistralProvider);
+			console.debug('Registered Mistral provider');
+		}
+
+		// Register Groq provider
+		const groqConfig = this.settings.providers['groq'];
+		if (groqConfig) {
+			const groqProvider = new GroqProvider(groqConfig);
+			this.providerManager.register(groqProvider);
+			console.debug('Registered Groq provider');
+		}
+
+		// Register Azure OpenAI provider
+		const azureConfig = this.settings.providers['azure-openai'];
+		if (azureConfig) {
+			const azureProvider = new AzureOpenAIProvider(azureConfig);
+			this.providerManager.register(azureProvider);
+			console.debug('Registered Azure OpenAI provider');
+		}
+
+		// Register user-added OpenAI-compatible endpoints
+		for (const config of this.getCompatibleProviderConfigs()) {
+			setProviderDisplayName(config.id, config.name ?? config.id);
+			this.providerManager.register(new OpenAICompatibleProvider(config));
+			console.debug(`Registered OpenAI-compatible provider ${config.id}`);
+		}
+	}
+
+	/**
+	 * Tier models on cloud providers without known prices, for the budget settings
+	 * Budgets treat them as paid, but their cost is recorded as $0.
+	 */
+	getUnpricedTierModels(): Model[] {
+		const models: Model[] = [];
+		for (const assignment of Object.values(this.settings.tiers)) {
+			if (!assignment || !this.providerManager.getProvider(assignment.provider)?.isCloud) {
+				continue;
+			}
+			const model = this.modelRegistry.list({ provider: assignment.provider }).find(m => m.id === assignment.model);
+			if (model && !model.pricePerMillion && !models.includes(model)) {
+				models.push(model);
+			}
+		}
+		return models;
+	}
+
+	/**
+	 * Configs of the user-added OpenAI-compatible endpoints
+	 */
+	getCompatibleProviderConfigs(): ProviderConfig[] {
+		return Object.values(this.settings.providers).filter(config => config.type === 'openai-compatible');
+	}
+
+	/**
+	 * Add an OpenAI-compatible endpoint (disabled until the user fills in its base URL)
+	 */
+	async addCompatibleProvider(): Promise<ProviderConfig> {
+		const id = createCompatibleProviderId(Object.keys(this.settings.providers));
+		const config: ProviderConfig = {
+			id,
+			type: 'openai-compatible',
+			name: 'OpenAI-compatible server',
+			enabled: false,
+			baseUrl: 'http://localhost:1234/v1',
+			timeout: 30000,
+			maxRetries: 3,
+		};
+		this.settings.providers[id] = config;
+		await this.saveSettings();
+
+		this.providerManager.loadConfigs({ [id]: config });
+		this.registerProviders();
+		return config;
+	}
+
+	/**
+	 * Remove an OpenAI-compatible endpoint and its settings
+	 * Tiers assigned to its models are cleared, so requests fall back to other tiers.
+	 */
+	async removeCompatibleProvider(id: string): Promise<void> {
+		if (this.settings.providers[id]?.type !== 'openai-compatible') {
+			return;
+		}
+
+		delete this.settings.providers[id];
+		for (const tier of Object.keys(this.settings.tiers) as PerformanceTier[]) {
+			if (this.settings.tiers[tier]?.provider === id) {
+				delete this.settings.tiers[tier];
+			}
+		}
+		this.providerManager.unregister(id);
+		this.modelRegistry.updateModels(this.modelRegistry.list().filter(model => model.provider !== id));
+		if (this.settings.modelCache) {
+			this.settings.modelCache.models = this.settings.modelCache.models.filter(model => model.provider !== id);
+		}
+		await this.saveSettings();
+	}
+
+	/**
+	 * Providers added by other plugins, for the settings tab
+	 */
+	getCustomProviders(): ProviderFactory[] {
+		return Array.from(this.customProviders.values());
+	}
+
+	/**
+	 * Add a provider contributed by another plugin
+	 * Its config is created from the factory's defaults on first registration and kept in settings.
+	 * @throws InvalidRequestError if the ID is invalid, built in or taken
+	 */
+	registerCustomProvider(factory: ProviderFactory): () => void {
+		const id = factory.id;
+		if (!PROVIDER_ID_PATTERN.test(id)) {
+			throw new InvalidRequestError(`Invalid provider ID "${id}": use lowercase letters, digits, hyphens or underscores`);
+		}
+		if (id in DEFAULT_PROVIDER_CONFIGS || this.customProviders.has(id) ||
+			this.settings.providers[id]?.type === 'openai-compatible') {
+			throw new InvalidRequestError(`Provider "${id}" is already registered`);
+		}
+
+		let config = this.settings.providers[id];
+		if (!config) {
+			config = {
+				enabled: false,
+				timeout: 30000,
+				maxRetries: 3,
+				...factory.defaultConfig,
+				id,
+			};
+			this.settings.providers[id] = config;
+			this.saveSettings().catch((error: unknown) => {
+				console.error(`Failed to save settings for provider ${id}:`, error);
+			});
+		}
+
+		const provider = factory.create(config, { LLMProvider, errors: LLMErrors });
+		if (provider.id !== id) {
+			throw new InvalidRequestError(`Provider factory "${id}" created a provider with ID "${provider.id}"`);
+		}
+
+		this.customProviders.set(id, factory);
+		setProviderDisplayName(id, factory.name);
+		this.providerManager.loadConfigs({ [id]: config });
+		this.providerManager.register(provider);
+		console.debug(`Registered ${factory.name} provider`);
+
+		if (config.enabled) {
+			this.refreshModelsWithTimeout(5000).catch(() => {
+				// Error already handled inside refreshModelsWithTimeout
+			});
+		}
+
+		// Only this registration can remove the provider again
+		return () => {
+			this.unregisterCustomProvider(id, factory);
+		};
+	}
+
+	/**
+	 * Remove a provider added by another plugin
+	 * Its settings and tier assignments are kept for the next registration; the
+	 * settings tab shows the affected tiers as falling back until then.
+	 * @param factory Factory of the registration to remove; a later registration of the same ID is left alone
+	 */
+	private unregisterCustomProvider(id: string, factory: ProviderFactory): void {
+		if (this.customProviders.get(id) !== factory) {
+			return;
+		}
+
+		this.customProviders.delete(id);
+		this.providerManager.unregister(id);
+		this.modelRegistry.updateModels(this.modelRegistry.list().filter(model => model.provider !== id));
 	}
 
 	/**
 	 * Create the public API for other plugins
+	 * @param pluginId Set for clients from forPlugin(): every request is attributed to this plugin
 	 */
-	private createAPI(): LLMConnectorAPI {
-		return {
+	private createAPI(pluginId?: string): LLMConnectorAPI {
+		// The caller's own pluginId is never trusted: identity only comes from forPlugin()
+		const identify = <T extends { pluginId?: string }>(options: T): T =>
+			({ ...options, pluginId: pluginId ?? UNKNOWN_PLUGIN_ID });
+
+		const api: LLMConnectorAPI = {
 			version: '1.0.0',
 
-			complete: async (options: CompletionOptions): Promise<CompletionResult> => {
-				// Validate options
-				if (!options.prompt) {
-					throw new Error('Prompt is required');
-				}
+			errors: LLMErrors,
 
-				// Determine which model to use
-				let modelToUse: Model | null = null;
-				let tierResolution = null;
-
-				// Priority: explicit model > tier > default tier
-				if (options.model) {
-					// Explicit model specified
-					modelToUse = this.modelRegistry.getByNameOrTag(options.model);
-					if (!modelToUse) {
-						throw new Error(`Model not found: ${options.model}`);
-					}
-				} else {
-					// Use tier system
-					const tier = options.tier ?? this.settings.defaultTier;
-					
-					try {
-						tierResolution = this.tierResolver.resolve(tier);
-						const { provider, model } = tierResolution.assignment;
-						
-						// Find the model in the registry
-						const models = this.modelRegistry.list({ provider });
-						modelToUse = models.find(m => m.id === model) ?? null;
-						
-						if (!modelToUse) {
-							throw new Error(
-								`Model "${model}" from provider "${provider}" not found. ` +
-								`Is the provider connected?`
-							);
-						}
-
-						// Notify if fallback occurred
-						if (tierResolution.fallbackOccurred && tierResolution.fallbackReason) {
-							this.notificationManager.notifyFallback(
-								tierResolution.requestedTier,
-								tierResolution.tier,
-								tierResolution.fallbackReason
-							);
-						}
-					} catch (error: unknown) {
-						if (error instanceof Error) {
-							throw new Error(
-								`Tier resolution failed: ${error.message}. ` +
-								`Please configure tiers in LLM Connector settings.`
-							);
-						}
-						throw error;
-					}
+			forPlugin: (id: string): LLMConnectorAPI => {
+				if (typeof id !== 'string' || id.trim() === '') {
+					throw new InvalidRequestError('forPlugin() needs the plugin\'s manifest id');
 				}
-
-				// Get provider
-				const provider = this.providerManager.getProvider(
-					options.provider ?? modelToUse.provider
-				);
-
-				if (!provider) {
-					throw new Error(`Provider not found: ${modelToUse.provider}`);
+				if (id === this.manifest.id || id === UNKNOWN_PLUGIN_ID) {
+					throw new InvalidRequestError(`forPlugin() can't be used with the reserved id "${id}"`);
 				}
 
-				if (!provider.isConfigured()) {
-					throw new Error(`Provider ${modelToUse.provider} is not configured`);
+				let scoped = this.scopedAPIs.get(id);
+				if (!scoped) {
+					scoped = this.createAPI(id);
+					this.scopedAPIs.set(id, scoped);
 				}
+				return scoped;
+			},
 
-				// Execute completion
-				try {
-					const result = await provider.complete({
-						...options,
-						model: modelToUse.id,
-					});
-
-					// Add tier metadata if tier was used
-					if (tierResolution) {
-						result.requestedTier = tierResolution.requestedTier;
-						result.actualTier = tierResolution.tier;
-						result.fallbackOccurred = tierResolution.fallbackOccurred;
-						result.fallbackReason = tierResolution.fallbackReason;
-					}
-
-					return result;
-				} catch (error: unknown) {
-					// Provider error - could trigger fallback in future
-					if (error instanceof Error) {
-						this.notificationManager.notifyProviderError(
-							modelToUse.provider,
-							modelToUse.id,
-							error.message
-						);
-					}
-					throw error;
-				}
+			complete: (options: CompletionOptions): Promise<CompletionResult> => {
+				return this.requestRouter.complete(identify(options));
 			},
 
-			stream: async function* (this: LLMConnectorPlugin, options: StreamOptions): AsyncGenerator<string, void, unknown> {
-				// Determine which model to use (same logic as complete)
-				let modelToUse: Model | null = null;
+			stream: (options: StreamOptions): AsyncGenerator<string, void, unknown> => {
+				return this.requestRouter.stream(identify(options));
+			},
 
-				if (options.model) {
-					modelToUse = this.modelRegistry.getByNameOrTag(options.model);
-					if (!modelToUse) {
-						throw new Error(`Model not found: ${options.model}`);
-					}
-				} else {
-					const tier = options.tier ?? this.settings.defaultTier;
-					const tierResolution = this.tierResolver.resolve(tier);
-					const { provider, model } = tierResolution.assignment;
-					
-					const models = this.modelRegistry.list({ provider });
-					modelToUse = models.find(m => m.id === model) ?? null;
-					
-					if (!modelToUse) {
-						throw new Error(
-							`Model "${model}" from provider "${provider}" not found`
-						);
-					}
-
-					if (tierResolution.fallbackOccurred && tierResolution.fallbackReason) {
-						this.notificationManager.notifyFallback(
-							tierResolution.requestedTier,
-							tierResolution.tier,
-							tierResolution.fallbackReason
-						);
-					}
-				}
+			embed: (options: EmbeddingOptions): Promise<EmbeddingResult> => {
+				return this.requestRouter.embed(identify(options));
+			},
+
+			getEmbeddingNamespace: (): EmbeddingNamespace | null => {
+				return this.requestRouter.getEmbeddingNamespace();
+			},
 
-				// Get provider
-				const provider = this.providerManager.getProvider(
-					options.provider ?? modelToUse.provider
+			isEmbeddingCompatible: (namespace: string, dimensions?: number): boolean => {
+				return this.requestRouter.isEmbeddingCompatible(namespace, dimensions);
+			},
+
+			searchSimilar: (query: string, k = 5): Promise<SimilarityResult[]> => {
+				return this.vectorIndex.search(query, k, (options: EmbeddingOptions) =>
+					this.requestRouter.embed(identify(options))
 				);
+			},
 
-				if (!provider) {
-					throw new Error(`Provider not found: ${modelToUse.provider}`);
-				}
+			createConversation: (options?: ConversationOptions): Conversation => {
+				return new Conversation(api, options);
+			},
 
-				// Execute streaming
-				yield* provider.stream({
-					...options,
-					model: modelToUse.id,
-				});
-			}.bind(this),
+			restoreConversation: (data: SerializedConversation): Conversation => {
+				return Conversation.fromJSON(api, data);
+			},
+
+			runAgent: (options: AgentOptions): Promise<AgentResult> => {
+				return new AgentRunner(api).run(options);
+			},
+
+			getUsage: (query?: UsageQuery): UsageSummary => {
+				// Callers only see their own usage; the settings tab reads the ledger directly
+				return this.usageLedger.getSummary(identify(query ?? {}));
+			},
 
 			getModel: (criteria: ModelCriteria): Model | null => {
 				return this.modelRegistry.find(criteria);
@@ -429,6 +764,23 @@ export default class LLMConnectorPlugin extends Plugin {
 			isReady: (): boolean => {
 				return this.providerManager.getActive() !== null;
 			},
+
+			registerProvider: (factory: ProviderFactory): (() => void) => {
+				return this.registerCustomProvider(factory);
+			},
+
+			on: <K extends keyof ConnectorEventMap>(
+				name: K,
+				callback: (...data: ConnectorEventMap[K]) => unknown
+			): EventRef => {
+				return this.events.on(name, callback as (...data: unknown[]) => unknown);
+			},
+
+			offref: (ref: EventRef): void => {
+				this.events.offref(ref);
+			},
 		};
+
+		return api;
 	}
 }
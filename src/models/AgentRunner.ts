@@ -0,0 +1,156 @@
+import type {
+	AgentOptions,
+	AgentResult,
+	AgentStep,
+	AgentTool,
+	AgentToolResult,
+	ChatMessage,
+	CompletionOptions,
+	CompletionResult,
+	ToolCall,
+	ToolDefinition,
+} from '../types';
+import { InvalidRequestError } from '../errors';
+import { isAbortError, throwIfAborted } from '../utils/abort';
+
+/**
+ * Model calls per run when the caller doesn't set maxSteps
+ */
+const DEFAULT_MAX_STEPS = 10;
+
+/**
+ * Request functions the agent loop needs from the connector
+ */
+export interface AgentBackend {
+	complete(options: CompletionOptions): Promise<CompletionResult>;
+}
+
+/**
+ * Tool-calling loop on top of the connector API
+ * Every step is a regular completion, so tier routing, runtime fallback and
+ * fallback notifications apply. Requested tools are executed in order and
+ * their results fed back until the model answers without calling tools.
+ */
+export class AgentRunner {
+	constructor(private backend: AgentBackend) {}
+
+	/**
+	 * Run the loop until a final answer or the step limit
+	 * @throws InvalidRequestError if no tools are given or maxSteps is below 1
+	 */
+	async run(options: AgentOptions): Promise<AgentResult> {
+		const { tools, maxSteps = DEFAULT_MAX_STEPS, onStep, prompt, images, messages: history, ...requestOptions } = options;
+
+		if (tools.length === 0) {
+			throw new InvalidRequestError('runAgent() needs at least one tool');
+		}
+		if (maxSteps < 1) {
+			throw new InvalidRequestError('maxSteps must be at least 1');
+		}
+
+		const handlers = new Map(tools.map(tool => [tool.name, tool.handler]));
+		const definitions = tools.map(toToolDefinition);
+
+		// The prompt becomes a regular turn so later steps keep it in the history
+		const messages: ChatMessage[] = [...(history ?? [])];
+		if (prompt) {
+			messages.push({ role: 'user', content: prompt, ...(images?.length && { images }) });
+		}
+
+		const steps: AgentStep[] = [];
+		const tokens = { prompt: 0, completion: 0, total: 0 };
+
+		for (let index = 0; index < maxSteps; index++) {
+			throwIfAborted(options.abortSignal);
+
+			const result = await this.backend.complete({ ...requestOptions, messages: [...messages], tools: definitions });
+			tokens.prompt += result.tokens.prompt;
+			tokens.completion += result.tokens.completion;
+			tokens.total += result.tokens.total;
+
+			const toolCalls = result.toolCalls ?? [];
+			messages.push({
+				role: 'assistant',
+				content: result.text,
+				...(toolCalls.length > 0 && { toolCalls }),
+			});
+
+			const toolResults: AgentToolResult[] = [];
+			for (const call of toolCalls) {
+				throwIfAborted(options.abortSignal);
+				const toolResult = await this.execute(call, handlers);
+				toolResults.push(toolResult);
+				messages.push({ role: 'tool', toolCallId: call.id, content: toolResult.content });
+			}
+
+			const step: AgentStep = { index, result, toolResults };
+			steps.push(step);
+			onStep?.(step);
+
+			if (toolCalls.length === 0) {
+				return {
+					text: result.text,
+					finishReason: result.finishReason === 'length' ? 'length' : 'stop',
+					steps,
+					messages,
+					tokens,
+				};
+			}
+		}
+
+		return {
+			text: steps[steps.length - 1]?.result.text ?? '',
+			finishReason: 'max_steps',
+			steps,
+			messages,
+			tokens,
+		};
+	}
+
+	/**
+	 * Execute one tool call
+	 * Unknown tools and handler errors are returned to the model instead of ending the run.
+	 */
+	private async execute(call: ToolCall, handlers: Map<string, AgentTool['handler']>): Promise<AgentToolResult> {
+		const handler = handlers.get(call.name);
+		if (!handler) {
+			return { callId: call.id, name: call.name, content: `Error: unknown tool "${call.name}"`, isError: true };
+		}
+
+		try {
+			const value: unknown = await handler(call.arguments, call);
+			return { callId: call.id, name: call.name, content: toToolContent(value), isError: false };
+		} catch (error: unknown) {
+			if (isAbortError(error)) {
+				throw error;
+			}
+			console.error(`[LLM Connector] Tool "${call.name}" failed:`, error);
+			const message = error instanceof Error ? error.message : String(error);
+			return { callId: call.id, name: call.name, content: `Error: ${message}`, isError: true };
+		}
+	}
+}
+
+/**
+ * Strip the handler, leaving what is sent to the model
+ */
+function toToolDefinition(tool: AgentTool): ToolDefinition {
+	return {
+		name: tool.name,
+		...(tool.description && { description: tool.description }),
+		...(tool.parameters && { parameters: tool.parameters }),
+	};
+}
+
+/**
+ * Serialize a handler's return value for the model
+ */
+function toToolContent(value: unknown): string {
+	if (typeof value === 'string') {
+		return value;
+	}
+	if (value === undefined) {
+		return 'Done';
+	}
+	return JSON.stringify(value);
+}
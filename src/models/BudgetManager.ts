@@ -0,0 +1,133 @@
+import type { LLMProvider } from '../providers/LLMProvider';
+import type { UsageLedger } from './UsageLedger';
+import type { NotificationManager } from '../utils/NotificationManager';
+import { BudgetExceededError } from '../errors';
+import type { Budget, BudgetStatus, LLMConnectorSettings, Model } from '../types';
+
+/**
+ * Enforces spending limits from the settings
+ * Spending comes from the usage ledger, so budgets only count requests
+ * recorded while usage tracking is on. Free models are never limited;
+ * cloud models without known prices count as paid.
+ */
+export class BudgetManager {
+	// "<budget id>:<period start>:<level>" - warn once per budget and period
+	private notified = new Set<string>();
+
+	constructor(
+		private usageLedger: UsageLedger,
+		private notificationManager: NotificationManager,
+		private settings: LLMConnectorSettings
+	) {}
+
+	/**
+	 * Check the budgets that apply to a request before it is sent
+	 * Warns when a budget passes its warning threshold.
+	 * @throws BudgetExceededError if a budget for the provider or plugin is used up
+	 */
+	check(pluginId: string, model: Model, provider: LLMProvider): void {
+		if (!this.settings.usageTrackingEnabled || isFreeModel(model, provider)) {
+			return;
+		}
+
+		for (const budget of this.settings.budgets) {
+			if (!budget.enabled || !appliesTo(budget, pluginId, model.provider)) {
+				continue;
+			}
+
+			const status = this.getStatus(budget);
+			if (status.exceeded) {
+				this.notifyOnce(status, 'exceeded');
+				throw new BudgetExceededError(
+					`${formatBudget(budget)} reached ($${status.spent.toFixed(2)} spent)`,
+					{ provider: model.provider, model: model.id, budget, spent: status.spent }
+				);
+			}
+			if (status.warning) {
+				this.notifyOnce(status, 'warning');
+			}
+		}
+	}
+
+	/**
+	 * Spending against every configured budget
+	 */
+	getStatuses(): BudgetStatus[] {
+		return this.settings.budgets.map(budget => this.getStatus(budget));
+	}
+
+	/**
+	 * Spending against one budget in its current period
+	 */
+	getStatus(budget: Budget): BudgetStatus {
+		const spent = this.usageLedger.getSummary({
+			from: getPeriodStart(budget),
+			...(budget.scope === 'provider' ? { provider: budget.target } : { pluginId: budget.target }),
+		}).cost;
+
+		const exceeded = spent >= budget.limit;
+		return {
+			budget,
+			spent,
+			exceeded,
+			warning: !exceeded && budget.warnAt > 0 && spent >= budget.limit * budget.warnAt,
+		};
+	}
+
+	/**
+	 * Update the settings reference (e.g., after settings change)
+	 */
+	updateSettings(settings: LLMConnectorSettings): void {
+		this.settings = settings;
+	}
+
+	private notifyOnce(status: BudgetStatus, level: 'warning' | 'exceeded'): void {
+		const key = `${status.budget.id}:${getPeriodStart(status.budget)}:${level}`;
+		if (this.notified.has(key)) {
+			return;
+		}
+		this.notified.add(key);
+
+		const { budget, spent } = status;
+		const used = `$${spent.toFixed(2)} of $${budget.limit.toFixed(2)}`;
+		if (level === 'warning') {
+			this.notificationManager.notifyBudget(`${formatBudget(budget)} almost reached (${used})`);
+		} else if (budget.action === 'fallback_local') {
+			this.notificationManager.notifyBudget(`${formatBudget(budget)} reached (${used}). Using free models until it resets`);
+		} else {
+			this.notificationManager.notifyBudget(`${formatBudget(budget)} reached (${used}). Paid requests are blocked until it resets`);
+		}
+	}
+}
+
+/**
+ * Whether requests to a model cost nothing
+ * Local providers are free; cloud models only if their listed prices are 0.
+ * A cloud model without prices may be billed, so it isn't free.
+ */
+export function isFreeModel(model: Model, provider: LLMProvider): boolean {
+	if (!provider.isCloud) {
+		return true;
+	}
+	const prices = model.pricePerMillion;
+	return !!prices && prices.prompt === 0 && prices.completion === 0;
+}
+
+/**
+ * Start of the budget's current period (local midnight or first of the month)
+ */
+function getPeriodStart(budget: Budget): number {
+	const now = new Date();
+	return budget.period === 'daily'
+		? new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime()
+		: new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+}
+
+function appliesTo(budget: Budget, pluginId: string, provider: string): boolean {
+	return budget.scope === 'provider' ? budget.target === provider : budget.target === pluginId;
+}
+
+function formatBudget(budget: Budget): string {
+	const period = budget.period === 'daily' ? 'Daily' : 'Monthly';
+	return `${period} budget for ${budget.scope} "${budget.target}"`;
+}
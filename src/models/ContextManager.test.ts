@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import { ContextManager } from './ContextManager';
+import { ContextLengthExceededError } from '../errors';
+import type { ChatMessage, Model } from '../types';
+
+/**
+ * Model with the given context window
+ * The tests use 2000 tokens: 1000 are reserved for the response (half the window),
+ * leaving 1000 tokens (~4000 characters) for the request.
+ */
+function createModel(contextWindow?: number): Model {
+	return {
+		id: 'test-model',
+		name: 'Test model',
+		provider: 'test',
+		tags: ['chat'],
+		capabilities: ['text'],
+		contextWindow,
+	};
+}
+
+describe('ContextManager', () => {
+	describe('estimateRequestTokens', () => {
+		it('counts ~4 characters per token plus a per-message overhead', () => {
+			const manager = new ContextManager('reject');
+
+			expect(manager.estimateTokens('abcdefgh')).toBe(2);
+			expect(manager.estimateRequestTokens({ prompt: 'abcdefgh' })).toBe(6);
+			expect(manager.estimateRequestTokens({
+				systemPrompt: 'abcd',
+				messages: [{ role: 'user', content: 'abcdefgh' }],
+				prompt: 'abc',
+			})).toBe(5 + 6 + 5);
+		});
+
+		it('adds a flat estimate per image', () => {
+			const manager = new ContextManager('reject');
+			const image = { data: 'aGk=', mimeType: 'image/png' };
+
+			expect(manager.estimateRequestTokens({ prompt: 'abcd', images: [image, image] })).toBe(5 + 2000);
+		});
+	});
+
+	describe('fit', () => {
+		it('leaves requests that fit untouched', () => {
+			const manager = new ContextManager('truncate_middle');
+			const options = { prompt: 'Hello' };
+
+			const result = manager.fit(options, createModel(2000));
+
+			expect(result.options).toBe(options);
+			expect(result.trimmed).toBe(false);
+		});
+
+		it('does not enforce anything without a known context window', () => {
+			const manager = new ContextManager('reject');
+			const options = { prompt: 'x'.repeat(100000) };
+
+			expect(manager.fit(options, createModel()).options).toBe(options);
+		});
+
+		it('keeps room for maxTokens when it is below half the window', () => {
+			const manager = new ContextManager('reject');
+			// 1504 tokens: too much with the default reserve, fits next to 400 output tokens
+			const options = { prompt: 'x'.repeat(6000) };
+
+			expect(() => manager.fit(options, createModel(2000))).toThrow(ContextLengthExceededError);
+			expect(manager.fit({ ...options, maxTokens: 400 }, createModel(2000)).trimmed).toBe(false);
+		});
+
+		it('throws ContextLengthExceededError with the numbers for the reject strategy', () => {
+			const manager = new ContextManager('reject');
+
+			let error: unknown;
+			try {
+				manager.fit({ prompt: 'x'.repeat(8000) }, createModel(2000));
+			} catch (caught: unknown) {
+				error = caught;
+			}
+
+			expect(error).toBeInstanceOf(ContextLengthExceededError);
+			expect((error as ContextLengthExceededError).estimatedTokens).toBe(2004);
+			expect((error as ContextLengthExceededError).contextWindow).toBe(2000);
+			expect((error as ContextLengthExceededError).code).toBe('context_length_exceeded');
+		});
+
+		it('lets the request override the default strategy', () => {
+			const manager = new ContextManager('truncate_middle');
+
+			expect(() => manager.fit(
+				{ prompt: 'x'.repeat(8000), contextStrategy: 'reject' },
+				createModel(2000)
+			)).toThrow(ContextLengthExceededError);
+		});
+	});
+
+	describe('drop_oldest', () => {
+		it('drops the oldest turns with their replies, keeping system messages and the current turn', () => {
+			const manager = new ContextManager('drop_oldest');
+			const messages: ChatMessage[] = [
+				{ role: 'system', content: 'Be brief' },
+				{ role: 'user', content: 'a'.repeat(1600) },
+				{ role: 'assistant', content: 'b'.repeat(1600) },
+				{ role: 'user', content: 'c'.repeat(1600) },
+				{ role: 'assistant', content: 'd'.repeat(400) },
+				{ role: 'user', content: 'Latest question' },
+			];
+
+			const result = manager.fit({ messages }, createModel(2000));
+
+			expect(result.trimmed).toBe(true);
+			expect(result.options.messages?.map(message => message.content.charAt(0))).toEqual(['B', 'c', 'd', 'L']);
+			expect(result.estimatedTokens).toBeLessThanOrEqual(1000);
+			// The caller's history is not modified
+			expect(messages).toHaveLength(6);
+		});
+
+		it('keeps tool results together with the call that produced them', () => {
+			const manager = new ContextManager('drop_oldest');
+			const messages: ChatMessage[] = [
+				{ role: 'user', content: 'a'.repeat(2000) },
+				{ role: 'assistant', content: 'b'.repeat(1600) },
+				{ role: 'user', content: 'Look it up' },
+				{ role: 'assistant', content: '', toolCalls: [{ id: 'call_1', name: 'search', arguments: { q: 'x' } }] },
+				{ role: 'tool', content: 'r'.repeat(400), toolCallId: 'call_1' },
+			];
+
+			const result = manager.fit({ messages, prompt: 'And now?' }, createModel(2000));
+
+			expect(result.options.messages?.map(message => message.role)).toEqual(['user', 'assistant', 'tool']);
+			expect(result.options.messages?.[1]?.toolCalls?.[0]?.id).toBe(result.options.messages?.[2]?.toolCallId);
+		});
+
+		it('truncates a single oversized turn when dropping is not enough', () => {
+			const manager = new ContextManager('drop_oldest');
+
+			const result = manager.fit({ prompt: 'x'.repeat(8000) }, createModel(2000));
+
+			expect(result.trimmed).toBe(true);
+			expect(result.options.prompt).toContain('content omitted');
+			expect(result.estimatedTokens).toBeLessThanOrEqual(1000);
+		});
+	});
+
+	describe('truncate_middle', () => {
+		it('cuts the middle out of the longest content and keeps both ends', () => {
+			const manager = new ContextManager('truncate_middle');
+			const prompt = 'START' + 'x'.repeat(8000) + 'END';
+
+			const result = manager.fit({ systemPrompt: 'Summarize', prompt }, createModel(2000));
+
+			expect(result.trimmed).toBe(true);
+			expect(result.options.systemPrompt).toBe('Summarize');
+			expect(result.options.prompt?.startsWith('START')).toBe(true);
+			expect(result.options.prompt?.endsWith('END')).toBe(true);
+			expect(result.options.prompt).toContain('[... content omitted to fit the context window ...]');
+			expect(manager.estimateRequestTokens(result.options)).toBeLessThanOrEqual(1000);
+		});
+
+		it('never shortens system messages and throws if they alone do not fit', () => {
+			const manager = new ContextManager('truncate_middle');
+
+			expect(() => manager.fit(
+				{ messages: [{ role: 'system', content: 'x'.repeat(8000) }], prompt: 'Hi' },
+				createModel(2000)
+			)).toThrow(ContextLengthExceededError);
+		});
+	});
+});
@@ -0,0 +1,237 @@
+import { ContextLengthExceededError } from '../errors';
+import type { ChatMessage, CompletionOptions, ContextStrategy, Model } from '../types';
+
+/**
+ * Rough token estimate: ~4 characters per token for English text.
+ * Deliberately provider-agnostic - we only need to stay on the safe side of the window.
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Per-message overhead for role markers and separators
+ */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Flat per-image estimate - roughly what a ~1000px image costs with the major providers
+ */
+const IMAGE_TOKENS = 1000;
+
+/**
+ * Tokens reserved for the response when the request doesn't set maxTokens
+ */
+const DEFAULT_OUTPUT_RESERVE = 1024;
+
+/**
+ * Inserted where content was cut out by the truncate_middle strategy
+ */
+const TRUNCATION_MARKER = '\n\n[... content omitted to fit the context window ...]\n\n';
+
+/**
+ * Result of fitting a request into a model's context window
+ */
+export interface ContextFitResult<T extends CompletionOptions> {
+	options: T;
+	trimmed: boolean;
+	estimatedTokens: number;
+}
+
+/**
+ * Keeps requests within the resolved model's context window
+ * Estimates token counts and applies the configured strategy before a request is sent
+ */
+export class ContextManager {
+	constructor(private strategy: ContextStrategy) {}
+
+	/**
+	 * Estimate the token count of a text
+	 */
+	estimateTokens(text: string): number {
+		return Math.ceil(text.length / CHARS_PER_TOKEN);
+	}
+
+	/**
+	 * Estimate the prompt-side token count of a request
+	 */
+	estimateRequestTokens(options: CompletionOptions): number {
+		let total = 0;
+
+		if (options.systemPrompt) {
+			total += this.estimateTokens(options.systemPrompt) + MESSAGE_OVERHEAD_TOKENS;
+		}
+
+		for (const message of options.messages ?? []) {
+			total += this.estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+			total += (message.images?.length ?? 0) * IMAGE_TOKENS;
+			if (message.toolCalls?.length) {
+				total += this.estimateTokens(JSON.stringify(message.toolCalls));
+			}
+		}
+
+		if (options.prompt) {
+			total += this.estimateTokens(options.prompt) + MESSAGE_OVERHEAD_TOKENS;
+			total += (options.images?.length ?? 0) * IMAGE_TOKENS;
+		}
+
+		if (options.tools?.length) {
+			total += this.estimateTokens(JSON.stringify(options.tools));
+		}
+
+		return total;
+	}
+
+	/**
+	 * Fit a request into the model's context window
+	 * @param options Request options (options.contextStrategy overrides the default strategy)
+	 * @param model Resolved model
+	 * @returns Possibly trimmed options
+	 * @throws ContextLengthExceededError if the strategy is 'reject' or trimming is not enough
+	 */
+	fit<T extends CompletionOptions>(options: T, model: Model): ContextFitResult<T> {
+		const estimatedTokens = this.estimateRequestTokens(options);
+
+		// Unknown window - nothing to enforce
+		if (!model.contextWindow) {
+			return { options, trimmed: false, estimatedTokens };
+		}
+
+		const budget = this.getInputBudget(options, model.contextWindow);
+		if (estimatedTokens <= budget) {
+			return { options, trimmed: false, estimatedTokens };
+		}
+
+		const strategy = options.contextStrategy ?? this.strategy;
+		if (strategy === 'reject') {
+			throw this.createLengthError(model, estimatedTokens);
+		}
+
+		let trimmed = options;
+		if (strategy === 'drop_oldest') {
+			trimmed = this.dropOldest(trimmed, budget);
+		}
+
+		// Last resort for drop_oldest (a single huge turn), main strategy for truncate_middle
+		if (this.estimateRequestTokens(trimmed) > budget) {
+			trimmed = this.truncateMiddle(trimmed, budget);
+		}
+
+		const trimmedTokens = this.estimateRequestTokens(trimmed);
+		if (trimmedTokens > budget) {
+			throw this.createLengthError(model, trimmedTokens);
+		}
+
+		console.debug(
+			`Context trimmed (${strategy}): ~${estimatedTokens} → ~${trimmedTokens} tokens ` +
+			`for ${model.id} (window ${model.contextWindow})`
+		);
+
+		return { options: trimmed, trimmed: true, estimatedTokens: trimmedTokens };
+	}
+
+	/**
+	 * Update the default strategy (e.g., after settings change)
+	 */
+	updateStrategy(strategy: ContextStrategy): void {
+		this.strategy = strategy;
+	}
+
+	/**
+	 * Error for a request that doesn't fit, with the numbers attached
+	 */
+	private createLengthError(model: Model, estimatedTokens: number): ContextLengthExceededError {
+		return new ContextLengthExceededError(
+			`Request needs ~${estimatedTokens} tokens but model "${model.id}" ` +
+			`has a context window of ${model.contextWindow} tokens`,
+			{ provider: model.provider, model: model.id, estimatedTokens, contextWindow: model.contextWindow }
+		);
+	}
+
+	/**
+	 * Tokens available for the prompt side, leaving room for the response
+	 */
+	private getInputBudget(options: CompletionOptions, contextWindow: number): number {
+		const reserve = Math.min(
+			options.maxTokens ?? DEFAULT_OUTPUT_RESERVE,
+			Math.floor(contextWindow / 2)
+		);
+		return contextWindow - reserve;
+	}
+
+	/**
+	 * Drop the oldest user/assistant turns until the request fits
+	 * System messages and the current turn are never dropped.
+	 */
+	private dropOldest<T extends CompletionOptions>(options: T, budget: number): T {
+		const messages: ChatMessage[] = [...(options.messages ?? [])];
+
+		// Without a separate prompt, the last message is the current turn
+		const protectedTail = options.prompt ? 0 : 1;
+		const isDroppable = (message: ChatMessage, index: number): boolean =>
+			message.role !== 'system' && index < messages.length - protectedTail;
+
+		while (this.estimateRequestTokens({ ...options, messages }) > budget) {
+			const index = messages.findIndex(isDroppable);
+			if (index === -1) {
+				break;
+			}
+			messages.splice(index, 1);
+
+			// Drop the matching reply and tool results too, so history keeps starting
+			// with a user turn and no tool result loses its call
+			let next = messages[index];
+			while (next && (next.role === 'assistant' || next.role === 'tool') && isDroppable(next, index)) {
+				messages.splice(index, 1);
+				next = messages[index];
+			}
+		}
+
+		return { ...options, messages };
+	}
+
+	/**
+	 * Cut the middle out of the longest non-system content until the request fits
+	 * Keeps the beginning and end, where instructions and questions usually are.
+	 */
+	private truncateMiddle<T extends CompletionOptions>(options: T, budget: number): T {
+		const result: T = { ...options, messages: options.messages ? [...options.messages] : undefined };
+		const maxPasses = (result.messages?.length ?? 0) + 1;
+
+		for (let pass = 0; pass < maxPasses; pass++) {
+			const excess = this.estimateRequestTokens(result) - budget;
+			if (excess <= 0) {
+				break;
+			}
+
+			// Find the longest candidate (prompt or non-system message)
+			let longestIndex = -1;  // -1 = prompt
+			let longest = result.prompt ?? '';
+			result.messages?.forEach((message, index) => {
+				if (message.role !== 'system' && message.content.length > longest.length) {
+					longest = message.content;
+					longestIndex = index;
+				}
+			});
+
+			const removeChars = excess * CHARS_PER_TOKEN + TRUNCATION_MARKER.length;
+			const keep = Math.max(0, longest.length - removeChars);
+			if (keep === 0 || longest.length <= TRUNCATION_MARKER.length) {
+				break;
+			}
+
+			const head = Math.ceil(keep / 2);
+			const tail = keep - head;
+			const shortened = longest.slice(0, head) + TRUNCATION_MARKER + longest.slice(longest.length - tail);
+
+			if (longestIndex === -1) {
+				result.prompt = shortened;
+			} else if (result.messages) {
+				const message = result.messages[longestIndex];
+				if (message) {
+					result.messages[longestIndex] = { ...message, content: shortened };
+				}
+			}
+		}
+
+		return result;
+	}
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { Conversation } from './Conversation';
+import type { ConversationBackend } from './Conversation';
+import { AbortError } from '../errors';
+import type { CompletionOptions, CompletionResult, StreamOptions } from '../types';
+
+/**
+ * Backend that records requests and answers with a fixed reply
+ */
+function createBackend(reply = 'Reply'): ConversationBackend & { requests: CompletionOptions[] } {
+	const requests: CompletionOptions[] = [];
+	return {
+		requests,
+		complete(options: CompletionOptions): Promise<CompletionResult> {
+			requests.push(options);
+			return Promise.resolve({
+				text: reply,
+				model: 'test-model',
+				provider: 'test',
+				tokens: { prompt: 1, completion: 1, total: 2 },
+				finishReason: 'stop',
+			});
+		},
+		async *stream(options: StreamOptions): AsyncGenerator<string, void, unknown> {
+			requests.push(options);
+			// Two chunks, as a provider would deliver them
+			yield reply.slice(0, 5);
+			yield reply.slice(5);
+		},
+	};
+}
+
+const image = { path: 'attachments/diagram.png' };
+
+describe('Conversation', () => {
+	it('sends turn images on the user message and keeps them in the history', async () => {
+		const backend = createBackend();
+		const conversation = new Conversation(backend);
+
+		await conversation.send('What is this?', { images: [image], temperature: 0 });
+
+		expect(backend.requests[0]?.images).toBeUndefined();
+		expect(backend.requests[0]?.temperature).toBe(0);
+		expect(backend.requests[0]?.messages).toEqual([{ role: 'user', content: 'What is this?', images: [image] }]);
+		expect(conversation.messages[0]).toEqual({ role: 'user', content: 'What is this?', images: [image] });
+	});
+
+	it('sends turn images when streaming', async () => {
+		const backend = createBackend('Looks like a chart');
+		const conversation = new Conversation(backend);
+
+		const chunks: string[] = [];
+		for await (const chunk of conversation.stream('What is this?', { images: [image] })) {
+			chunks.push(chunk);
+		}
+
+		expect(chunks).toEqual(['Looks', ' like a chart']);
+		expect(backend.requests[0]?.messages?.[0]?.images).toEqual([image]);
+		expect(conversation.messages).toEqual([
+			{ role: 'user', content: 'What is this?', images: [image] },
+			{ role: 'assistant', content: 'Looks like a chart' },
+		]);
+	});
+
+	it('appends a streamed turn only once the stream completes', async () => {
+		const conversation = new Conversation(createBackend('Looks like a chart'));
+
+		for await (const chunk of conversation.stream('What is this?')) {
+			expect(chunk).toBe('Looks');
+			break;
+		}
+		expect(conversation.messages).toEqual([]);
+
+		const chunks: string[] = [];
+		for await (const chunk of conversation.stream('What is this?')) {
+			chunks.push(chunk);
+		}
+		expect(conversation.messages).toHaveLength(2);
+	});
+
+	it('leaves the history unchanged when a stream fails midway', async () => {
+		const backend = createBackend();
+		backend.stream = async function* (): AsyncGenerator<string, void, unknown> {
+			yield 'Partial';
+			throw new AbortError();
+		};
+		const conversation = new Conversation(backend);
+
+		const consume = async (): Promise<void> => {
+			for await (const chunk of conversation.stream('Hi')) {
+				expect(chunk).toBe('Partial');
+			}
+		};
+
+		await expect(consume()).rejects.toBeInstanceOf(AbortError);
+		expect(conversation.messages).toEqual([]);
+	});
+});
@@ -0,0 +1,218 @@
+import type {
+	ChatMessage,
+	CompletionOptions,
+	CompletionResult,
+	StreamOptions,
+	ConversationOptions,
+	SerializedConversation,
+	ToolCall,
+} from '../types';
+import { InvalidRequestError } from '../errors';
+
+/**
+ * Request functions a conversation needs from the connector
+ */
+export interface ConversationBackend {
+	complete(options: CompletionOptions): Promise<CompletionResult>;
+	stream(options: StreamOptions): AsyncGenerator<string, void, unknown>;
+}
+
+/**
+ * Per-turn overrides (e.g. a different tier or temperature for one message)
+ */
+export type TurnOptions = Omit<StreamOptions, 'prompt' | 'messages'>;
+
+/**
+ * Stateful chat session on top of the connector API
+ * Keeps the message history, appends replies automatically,
+ * and can be serialized to plugin data and restored later.
+ */
+export class Conversation {
+	readonly id: string;
+	readonly createdAt: number;
+	private updatedAt: number;
+	private history: ChatMessage[];
+	private options: Omit<ConversationOptions, 'messages'>;
+
+	constructor(
+		private backend: ConversationBackend,
+		options: ConversationOptions = {},
+		state?: Pick<SerializedConversation, 'id' | 'createdAt' | 'updatedAt'>
+	) {
+		const { messages, ...requestOptions } = options;
+		this.options = toSessionOptions(requestOptions);
+		this.history = messages ? [...messages] : [];
+		this.id = state?.id ?? `conv-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+		this.createdAt = state?.createdAt ?? Date.now();
+		this.updatedAt = state?.updatedAt ?? this.createdAt;
+	}
+
+	/**
+	 * Restore a conversation from serialized data
+	 * @param backend Connector functions used for requests
+	 * @param data Data previously returned by toJSON()
+	 */
+	static fromJSON(backend: ConversationBackend, data: SerializedConversation): Conversation {
+		if (data.version !== 1) {
+			throw new InvalidRequestError(`Unsupported conversation format version: ${String(data.version)}`);
+		}
+		return new Conversation(
+			backend,
+			{ ...data.options, messages: data.messages },
+			{ id: data.id, createdAt: data.createdAt, updatedAt: data.updatedAt }
+		);
+	}
+
+	/**
+	 * Message history (copy - use the methods below to modify it)
+	 */
+	get messages(): ChatMessage[] {
+		return [...this.history];
+	}
+
+	/**
+	 * Send a user message and append the reply to the history
+	 * The user message is only recorded once the request succeeds.
+	 * @param prompt User message
+	 * @param overrides Options for this turn only; images are attached to the user message
+	 * @returns Completion result for the reply
+	 */
+	async send(prompt: string, overrides?: TurnOptions): Promise<CompletionResult> {
+		const userMessage = this.createUserMessage(prompt, overrides);
+		const result = await this.backend.complete(this.buildRequest(userMessage, overrides));
+
+		this.appendTurn(userMessage, result.text, result.toolCalls);
+		return result;
+	}
+
+	/**
+	 * Stream a reply to a user message
+	 * The turn is appended to the history once the stream finishes. A stream that
+	 * fails, is aborted or is not read to the end leaves the history unchanged.
+	 * @param prompt User message
+	 * @param overrides Options for this turn only; images are attached to the user message
+	 * @returns Async generator yielding text chunks
+	 */
+	async *stream(prompt: string, overrides?: TurnOptions): AsyncGenerator<string, void, unknown> {
+		const userMessage = this.createUserMessage(prompt, overrides);
+		let reply = '';
+
+		for await (const chunk of this.backend.stream(this.buildRequest(userMessage, overrides))) {
+			reply += chunk;
+			yield chunk;
+		}
+
+		// A partial reply would be resent with every later turn
+		this.appendTurn(userMessage, reply);
+	}
+
+	/**
+	 * Append a message without sending a request
+	 * (e.g. to seed context or record a reply obtained elsewhere)
+	 */
+	addMessage(message: ChatMessage): void {
+		this.history.push({ ...message });
+		this.touch();
+	}
+
+	/**
+	 * Remove the most recent user/assistant exchange
+	 * @returns The removed messages
+	 */
+	undo(): ChatMessage[] {
+		const lastUser = this.history.map(m => m.role).lastIndexOf('user');
+		if (lastUser === -1) {
+			return [];
+		}
+		const removed = this.history.splice(lastUser);
+		this.touch();
+		return removed;
+	}
+
+	/**
+	 * Clear the message history (options are kept)
+	 */
+	clear(): void {
+		this.history = [];
+		this.touch();
+	}
+
+	/**
+	 * Update default request options for future turns
+	 */
+	setOptions(options: ConversationOptions): void {
+		const { messages, ...requestOptions } = options;
+		this.options = { ...this.options, ...toSessionOptions(requestOptions) };
+		if (messages) {
+			this.history = [...messages];
+		}
+		this.touch();
+	}
+
+	/**
+	 * Serialize to a plain object suitable for Plugin.saveData()
+	 */
+	toJSON(): SerializedConversation {
+		return {
+			version: 1,
+			id: this.id,
+			createdAt: this.createdAt,
+			updatedAt: this.updatedAt,
+			options: { ...this.options },
+			messages: this.messages,
+		};
+	}
+
+	/**
+	 * User message of a turn, carrying the turn's images so they stay in the history
+	 */
+	private createUserMessage(prompt: string, overrides?: TurnOptions): ChatMessage {
+		const userMessage: ChatMessage = { role: 'user', content: prompt };
+		if (overrides?.images?.length) {
+			userMessage.images = overrides.images;
+		}
+		return userMessage;
+	}
+
+	/**
+	 * Build the request for a turn from defaults, history and overrides
+	 */
+	private buildRequest(userMessage: ChatMessage, overrides?: TurnOptions): StreamOptions {
+		// eslint-disable-next-line @typescript-eslint/no-unused-vars -- images travel on the user message
+		const { images, ...turnOptions } = overrides ?? {};
+		return {
+			...this.options,
+			...turnOptions,
+			messages: [...this.history, userMessage],
+		};
+	}
+
+	/**
+	 * Record a completed exchange
+	 */
+	private appendTurn(userMessage: ChatMessage, reply: string, toolCalls?: ToolCall[]): void {
+		const assistantMessage: ChatMessage = { role: 'assistant', content: reply };
+		if (toolCalls?.length) {
+			assistantMessage.toolCalls = toolCalls;
+		}
+		this.history.push(userMessage, assistantMessage);
+		this.touch();
+	}
+
+	private touch(): void {
+		this.updatedAt = Date.now();
+	}
+}
+
+/**
+ * Drop per-turn options a caller may still pass at runtime (signals, callbacks):
+ * they would apply to every later turn and can't be serialized
+ */
+function toSessionOptions(options: Omit<ConversationOptions, 'messages'>): Omit<ConversationOptions, 'messages'> {
+	const sessionOptions: Omit<ConversationOptions, 'messages'> & Partial<TurnOptions> = { ...options };
+	delete sessionOptions.abortSignal;
+	delete sessionOptions.onChunk;
+	delete sessionOptions.onComplete;
+	delete sessionOptions.onError;
+	return sessionOptions;
+}
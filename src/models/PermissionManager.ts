@@ -0,0 +1,118 @@
+import type { LLMProvider } from '../providers/LLMProvider';
+import { PermissionDeniedError } from '../errors';
+import type { LLMConnectorSettings, PerformanceTier, PluginPermissions } from '../types';
+
+/**
+ * Asks the user whether a plugin may use the connector
+ * @returns true to allow, false to block, null if the user dismissed the question
+ */
+export type PermissionPrompt = (pluginId: string) => Promise<boolean | null>;
+
+/**
+ * Enforces the per-plugin access rules from the settings
+ * Requests are identified by the plugin id of the forPlugin() client that sent them
+ * ("unknown" for the shared API). The connector's own requests (e.g. the embedding
+ * index) don't go through here.
+ */
+export class PermissionManager {
+	// Open confirmation per plugin, so parallel requests ask only once
+	private prompts = new Map<string, Promise<boolean | null>>();
+
+	constructor(
+		private settings: LLMConnectorSettings,
+		private prompt: PermissionPrompt,
+		private saveSettings: () => Promise<void>
+	) {}
+
+	/**
+	 * Make sure a plugin may send requests, asking the user on first use if required
+	 * @throws PermissionDeniedError if the plugin is blocked or the user didn't allow it
+	 */
+	async authorize(pluginId: string): Promise<void> {
+		let permissions = this.settings.pluginPermissions[pluginId];
+		if (!permissions) {
+			permissions = {
+				access: this.settings.confirmNewPlugins ? 'ask' : 'allowed',
+				allowCloud: true,
+				firstSeen: Date.now(),
+			};
+			this.settings.pluginPermissions[pluginId] = permissions;
+			await this.saveSettings();
+		}
+
+		if (permissions.access === 'ask') {
+			await this.confirm(pluginId, permissions);
+		}
+		if (permissions.access !== 'allowed') {
+			throw new PermissionDeniedError(
+				`Plugin "${pluginId}" is not allowed to use LLM Connector. Change this in LLM Connector settings.`,
+				{ pluginId }
+			);
+		}
+	}
+
+	/**
+	 * Check that a plugin may use a provider and tier
+	 * @param tier Tier of the route; undefined for explicit model requests
+	 * @throws PermissionDeniedError if the route is outside the plugin's permissions
+	 */
+	checkRoute(pluginId: string, provider: LLMProvider, tier?: PerformanceTier): void {
+		const permissions = this.settings.pluginPermissions[pluginId];
+		if (!permissions) {
+			return;
+		}
+
+		const details = { pluginId, provider: provider.id };
+		if (!permissions.allowCloud && provider.isCloud) {
+			throw new PermissionDeniedError(
+				`Plugin "${pluginId}" may not use cloud providers (${provider.name})`,
+				details
+			);
+		}
+		if (permissions.providers?.length && !permissions.providers.includes(provider.id)) {
+			throw new PermissionDeniedError(
+				`Plugin "${pluginId}" may not use ${provider.name}`,
+				details
+			);
+		}
+		if (permissions.tiers?.length && (!tier || !permissions.tiers.includes(tier))) {
+			throw new PermissionDeniedError(
+				tier
+					? `Plugin "${pluginId}" may not use the ${tier} tier`
+					: `Plugin "${pluginId}" may only use the ${permissions.tiers.join(', ')} tiers, not explicit models`,
+				details
+			);
+		}
+	}
+
+	/**
+	 * Update the settings reference (e.g., after settings change)
+	 */
+	updateSettings(settings: LLMConnectorSettings): void {
+		this.settings = settings;
+	}
+
+	/**
+	 * Ask the user and store the answer
+	 * Dismissing the question denies the request without storing anything.
+	 */
+	private async confirm(pluginId: string, permissions: PluginPermissions): Promise<void> {
+		let prompt = this.prompts.get(pluginId);
+		if (!prompt) {
+			prompt = this.prompt(pluginId);
+			this.prompts.set(pluginId, prompt);
+		}
+
+		let allowed: boolean | null;
+		try {
+			allowed = await prompt;
+		} finally {
+			this.prompts.delete(pluginId);
+		}
+
+		if (allowed !== null && permissions.access === 'ask') {
+			permissions.access = allowed ? 'allowed' : 'blocked';
+			await this.saveSettings();
+		}
+	}
+}
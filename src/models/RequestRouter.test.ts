@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RequestRouter } from './RequestRouter';
+import { BudgetManager } from './BudgetManager';
+import { ContextManager } from './ContextManager';
+import { ModelRegistry } from './ModelRegistry';
+import { TierResolver } from './TierResolver';
+import type { PermissionManager } from './PermissionManager';
+import type { ProviderManager } from './ProviderManager';
+import type { UsageLedger } from './UsageLedger';
+import { BudgetExceededError } from '../errors';
+import type { LLMProvider } from '../providers/LLMProvider';
+import { DEFAULT_SETTINGS } from '../settings';
+import type { NotificationManager } from '../utils/NotificationManager';
+import type { Vault } from 'obsidian';
+import type { BudgetAction, CompletionOptions, LLMConnectorSettings, Model, ModelTag } from '../types';
+
+/**
+ * Provider stub that answers every request with its own id and logs the model it was sent to
+ */
+function createProvider(id: string, isCloud: boolean, requests: string[]): LLMProvider {
+	return {
+		id,
+		name: id,
+		isCloud,
+		isConfigured: () => true,
+		complete: vi.fn((options: CompletionOptions) => {
+			requests.push(`${id}:${options.model ?? ''}`);
+			return Promise.resolve({
+				text: `${id} answered`,
+				model: options.model ?? '',
+				provider: id,
+				tokens: { prompt: 1, completion: 1, total: 2 },
+				finishReason: 'stop',
+			});
+		}),
+	} as unknown as LLMProvider;
+}
+
+function createModel(id: string, provider: string, tags: ModelTag[] = ['chat']): Model {
+	return { id, name: id, provider, tags, capabilities: ['text'], contextWindow: 100000 };
+}
+
+/**
+ * Router whose "cloud" provider is over its budget ($10 spent of $5)
+ */
+function createRouter(settings: LLMConnectorSettings, models: Model[]): {
+	router: RequestRouter;
+	requests: string[];
+} {
+	const requests: string[] = [];
+	const providers: Record<string, LLMProvider> = {
+		cloud: createProvider('cloud', true, requests),
+		ollama: createProvider('ollama', false, requests),
+	};
+	const modelRegistry = new ModelRegistry();
+	modelRegistry.updateModels(models);
+
+	const notificationManager = {
+		notifyBudget: vi.fn(),
+		notifyFallback: vi.fn(),
+		notifyProviderError: vi.fn(),
+	} as unknown as NotificationManager;
+	const usageLedger = {
+		getSummary: () => ({ cost: 10 }),
+		record: vi.fn(),
+	} as unknown as UsageLedger;
+	const permissionManager = {
+		authorize: () => Promise.resolve(),
+		checkRoute: vi.fn(),
+	} as unknown as PermissionManager;
+	const providerManager = {
+		getProvider: (id: string) => providers[id] ?? null,
+	} as unknown as ProviderManager;
+
+	const router = new RequestRouter(
+		providerManager,
+		modelRegistry,
+		new TierResolver(settings),
+		new ContextManager('drop_oldest'),
+		notificationManager,
+		settings,
+		{} as Vault,
+		usageLedger,
+		new BudgetManager(usageLedger, notificationManager, settings),
+		permissionManager
+	);
+	return { router, requests };
+}
+
+function createSettings(action: BudgetAction): LLMConnectorSettings {
+	return {
+		...DEFAULT_SETTINGS,
+		tiers: { ...DEFAULT_SETTINGS.tiers, balanced: { provider: 'cloud', model: 'gpt' } },
+		budgets: [{
+			id: 'cloud-daily',
+			scope: 'provider',
+			target: 'cloud',
+			period: 'daily',
+			limit: 5,
+			warnAt: 0,
+			action,
+			enabled: true,
+		}],
+	};
+}
+
+describe('RequestRouter budget fallback', () => {
+	const models = [
+		createModel('gpt', 'cloud'),
+		createModel('nomic-embed-text', 'ollama', ['embedding']),
+		createModel('llama3.2', 'ollama'),
+	];
+
+	beforeEach(() => {
+		vi.spyOn(console, 'debug').mockImplementation(() => undefined);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('rejects paid requests when the budget action is reject', async () => {
+		const { router } = createRouter(createSettings('reject'), models);
+
+		await expect(router.complete({ prompt: 'Hi' })).rejects.toBeInstanceOf(BudgetExceededError);
+	});
+
+	it('falls back to a free model outside the tier chain', async () => {
+		const { router, requests } = createRouter(createSettings('fallback_local'), models);
+
+		const result = await router.complete({ prompt: 'Hi' });
+
+		expect(result.text).toBe('ollama answered');
+		expect(result.model).toBe('llama3.2');
+		expect(result.fallbackOccurred).toBe(true);
+		expect(result.fallbackReason).toBe('budget_exceeded');
+		expect(requests).toEqual(['ollama:llama3.2']);
+	});
+
+	it('falls back for explicit model requests', async () => {
+		const { router } = createRouter(createSettings('fallback_local'), models);
+
+		const result = await router.complete({ prompt: 'Hi', model: 'gpt' });
+
+		expect(result.provider).toBe('ollama');
+		expect(result.fallbackReason).toBe('budget_exceeded');
+	});
+
+	it('only falls back to models that accept the request images', async () => {
+		const settings = createSettings('fallback_local');
+		settings.tiers.vision = { provider: 'cloud', model: 'gpt' };
+		const { router } = createRouter(settings, models);
+
+		await expect(router.complete({ prompt: 'Describe', images: [{ data: 'aGk=', mimeType: 'image/png' }] }))
+			.rejects.toBeInstanceOf(BudgetExceededError);
+	});
+
+	it('stays rejected when no free model is connected', async () => {
+		const { router } = createRouter(createSettings('fallback_local'), [createModel('gpt', 'cloud')]);
+
+		await expect(router.complete({ prompt: 'Hi' })).rejects.toBeInstanceOf(BudgetExceededError);
+	});
+});
@@ -0,0 +1,750 @@
+import type { Vault } from 'obsidian';
+import type { LLMProvider } from '../providers/LLMProvider';
+import type { ProviderManager } from './ProviderManager';
+import type { ModelRegistry } from './ModelRegistry';
+import type { TierResolver, TierResolution } from './TierResolver';
+import type { ContextManager } from './ContextManager';
+import { isFreeModel } from './BudgetManager';
+import type { BudgetManager } from './BudgetManager';
+import type { PermissionManager } from './PermissionManager';
+import { estimateCost, UNKNOWN_PLUGIN_ID } from './UsageLedger';
+import type { UsageLedger } from './UsageLedger';
+import type { NotificationManager } from '../utils/NotificationManager';
+import {
+	BudgetExceededError,
+	InvalidRequestError,
+	InvalidResponseError,
+	LLMConnectorError,
+	ModelNotFoundError,
+	PermissionDeniedError,
+	ProviderError,
+	ProviderNotConfiguredError,
+	TierNotConfiguredError,
+} from '../errors';
+import { isAbortError, throwIfAborted } from '../utils/abort';
+import { hasImages, loadImages } from '../utils/images';
+import { checkJsonResponse } from '../utils/jsonSchema';
+import { usesTools, validateTools } from '../utils/tools';
+import type {
+	CompletionOptions,
+	CompletionResult,
+	StreamOptions,
+	EmbeddingOptions,
+	EmbeddingResult,
+	EmbeddingNamespace,
+	FallbackReason,
+	LLMConnectorSettings,
+	Model,
+	ModelAssignment,
+	PerformanceTier,
+	ResponseFormat,
+	UsageRecord,
+} from '../types';
+
+/**
+ * A resolved model/provider pair a request can be sent to
+ */
+interface Route {
+	model: Model;
+	provider: LLMProvider;
+	resolution?: TierResolution;  // undefined for explicit model requests
+}
+
+/**
+ * Request fields that decide where a request is routed
+ */
+type RouteTarget = Pick<CompletionOptions, 'model' | 'tier' | 'provider'>;
+
+/**
+ * Errors that end the request instead of moving on to the next route
+ * Cancellation and oversized or malformed requests are the caller's problem, not a provider failure.
+ */
+const NON_FALLBACK_CODES = new Set(['aborted', 'context_length_exceeded', 'invalid_request']);
+
+/**
+ * Retries after invalid structured output when responseFormat.maxRetries isn't set
+ */
+const DEFAULT_FORMAT_RETRIES = 2;
+
+/**
+ * Routes requests to providers
+ * Resolves the tier (or explicit model) to a route, fits the request into the
+ * model's context window, and walks the tier fallback chain at runtime
+ * when a provider fails.
+ */
+export class RequestRouter {
+	// Vector length per embedding namespace, learned from responses
+	private embeddingDimensions = new Map<string, number>();
+
+	constructor(
+		private providerManager: ProviderManager,
+		private modelRegistry: ModelRegistry,
+		private tierResolver: TierResolver,
+		private contextManager: ContextManager,
+		private notificationManager: NotificationManager,
+		private settings: LLMConnectorSettings,
+		private vault: Vault,
+		private usageLedger: UsageLedger,
+		private budgetManager: BudgetManager,
+		private permissionManager: PermissionManager
+	) {}
+
+	/**
+	 * Generate a completion, falling back along the tier chain on provider errors
+	 */
+	async complete(options: CompletionOptions): Promise<CompletionResult> {
+		this.validate(options);
+		const pluginId = options.pluginId ?? UNKNOWN_PLUGIN_ID;
+		await this.permissionManager.authorize(pluginId);
+		options = await loadImages(options, this.vault);
+
+		const startTime = Date.now();
+		let fallbackReason: FallbackReason | undefined;
+		let lastError: unknown = new ProviderNotConfiguredError('No route available');
+		let budgetExhausted = false;
+
+		for (const nextRoute of this.planCompletionRoutes(options, () => budgetExhausted)) {
+			throwIfAborted(options.abortSignal);
+
+			let route: Route | null = null;
+			try {
+				route = nextRoute();
+				this.permissionManager.checkRoute(pluginId, route.provider, route.resolution?.tier);
+				this.budgetManager.check(pluginId, route.model, route.provider);
+				this.checkToolSupport(options, route);
+				const fitted = this.contextManager.fit(options, route.model);
+
+				const request = { ...fitted.options, model: route.model.id };
+				const result = options.responseFormat
+					? await this.completeStructured(route, request, options.responseFormat)
+					: await route.provider.complete(request);
+
+				if (fitted.trimmed) {
+					result.contextTrimmed = true;
+				}
+				this.applyRouteMetadata(result, route, fallbackReason);
+				this.reportFallback(route, fallbackReason);
+				this.recordCompletion(options, route, result, startTime);
+
+				return result;
+			} catch (error: unknown) {
+				if (!this.canFallBack(error)) {
+					throw error;
+				}
+				budgetExhausted = budgetExhausted || error instanceof BudgetExceededError;
+				this.reportFailure(route, error);
+				fallbackReason = fallbackReason ?? this.getFallbackReason(error);
+				lastError = error;
+			}
+		}
+
+		throw lastError;
+	}
+
+	/**
+	 * Stream a completion, falling back along the tier chain on provider errors
+	 * Fallback is only possible until the first chunk has been yielded.
+	 */
+	async *stream(options: StreamOptions): AsyncGenerator<string, void, unknown> {
+		this.validate(options);
+		const pluginId = options.pluginId ?? UNKNOWN_PLUGIN_ID;
+		await this.permissionManager.authorize(pluginId);
+		options = await loadImages(options, this.vault);
+
+		const { onError, onComplete } = options;
+		const startTime = Date.now();
+		let fallbackReason: FallbackReason | undefined;
+		let lastError: unknown = new ProviderNotConfiguredError('No route available');
+		let budgetExhausted = false;
+
+		for (const nextRoute of this.planCompletionRoutes(options, () => budgetExhausted)) {
+			throwIfAborted(options.abortSignal);
+
+			let route: Route | null = null;
+			let started = false;
+			let completed = false;
+			try {
+				const currentRoute = nextRoute();
+				route = currentRoute;
+				this.permissionManager.checkRoute(pluginId, currentRoute.provider, currentRoute.resolution?.tier);
+				this.budgetManager.check(pluginId, currentRoute.model, currentRoute.provider);
+				this.checkToolSupport(options, currentRoute);
+				const fitted = this.contextManager.fit(options, currentRoute.model);
+				const currentReason = fallbackReason;
+
+				const chunks = currentRoute.provider.stream({
+					...fitted.options,
+					model: currentRoute.model.id,
+					// Errors are reported once, after fallback has been exhausted
+					onError: undefined,
+					onComplete: (result: CompletionResult) => {
+						completed = true;
+						if (fitted.trimmed) {
+							result.contextTrimmed = true;
+						}
+						// Streamed text can't be retried - data is only set if it's valid
+						if (options.responseFormat) {
+							const check = checkJsonResponse(result.text, options.responseFormat);
+							if (check.valid) {
+								result.data = check.data;
+							}
+						}
+						this.applyRouteMetadata(result, currentRoute, currentReason);
+						this.recordCompletion(options, currentRoute, result, startTime);
+						onComplete?.(result);
+					},
+				});
+
+				let text = '';
+				try {
+					for await (const chunk of chunks) {
+						if (!started) {
+							started = true;
+							this.reportFallback(currentRoute, currentReason);
+						}
+						text += chunk;
+						yield chunk;
+					}
+				} finally {
+					// Aborted, failed mid-answer or stopped by the consumer: the provider
+					// still bills what it processed, so record an estimate
+					if (!completed && (started || options.abortSignal?.aborted)) {
+						this.recordPartialStream(options, currentRoute, fitted.options, text, startTime, currentReason);
+					}
+				}
+				return;
+			} catch (error: unknown) {
+				// Once text reached the consumer we can't switch models mid-answer
+				if (started || !this.canFallBack(error)) {
+					onError?.(this.toError(error));
+					throw error;
+				}
+				budgetExhausted = budgetExhausted || error instanceof BudgetExceededError;
+				this.reportFailure(route, error);
+				fallbackReason = fallbackReason ?? this.getFallbackReason(error);
+				lastError = error;
+			}
+		}
+
+		onError?.(this.toError(lastError));
+		throw lastError;
+	}
+
+	/**
+	 * Complete a request with a responseFormat on one route
+	 * Invalid output is sent back to the model with the validation errors and
+	 * retried; token counts of all attempts are summed.
+	 * @throws InvalidResponseError if the output is still invalid after the retries
+	 */
+	private async completeStructured(
+		route: Route,
+		options: CompletionOptions,
+		format: ResponseFormat
+	): Promise<CompletionResult> {
+		const maxRetries = format.maxRetries ?? DEFAULT_FORMAT_RETRIES;
+		const tokens = { prompt: 0, completion: 0, total: 0 };
+		let request = options;
+
+		for (let attempt = 0; ; attempt++) {
+			const result = await route.provider.complete(request);
+			tokens.prompt += result.tokens.prompt;
+			tokens.completion += result.tokens.completion;
+			tokens.total += result.tokens.total;
+
+			const check = checkJsonResponse(result.text, format);
+			if (check.valid) {
+				return { ...result, tokens, data: check.data };
+			}
+
+			if (attempt >= maxRetries) {
+				throw new InvalidResponseError(
+					`Model "${route.model.id}" returned invalid JSON after ${attempt + 1} attempts: ${check.errors.join('; ')}`,
+					{ provider: route.provider.id, model: route.model.id, text: result.text, validationErrors: check.errors }
+				);
+			}
+
+			// Show the model its answer and what was wrong with it
+			request = {
+				...options,
+				prompt: undefined,
+				images: undefined,
+				messages: [
+					...(options.messages ?? []),
+					...(options.prompt ? [{ role: 'user' as const, content: options.prompt, images: options.images }] : []),
+					{ role: 'assistant', content: result.text },
+					{
+						role: 'user',
+						content: `Your response was invalid:\n- ${check.errors.join('\n- ')}\n` +
+							'Reply again with corrected JSON only.',
+					},
+				],
+			};
+		}
+	}
+
+	/**
+	 * Generate embeddings, splitting the input into provider-sized batches
+	 * Routes to the embedding tier unless a model or tier is given. There is no
+	 * runtime fallback: vectors from different models can't be compared.
+	 */
+	async embed(options: EmbeddingOptions): Promise<EmbeddingResult> {
+		const pluginId = options.pluginId ?? UNKNOWN_PLUGIN_ID;
+		await this.permissionManager.authorize(pluginId);
+		return this.runEmbedding(options, pluginId, true);
+	}
+
+	/**
+	 * Generate embeddings for the connector itself (the embedding index)
+	 * Plugin access rules don't apply; budgets do, and usage is recorded under ownPluginId.
+	 * Not reachable through the public API, which always sets the caller's pluginId.
+	 */
+	embedInternal(options: EmbeddingOptions, ownPluginId: string): Promise<EmbeddingResult> {
+		return this.runEmbedding(options, ownPluginId, false);
+	}
+
+	private async runEmbedding(
+		options: EmbeddingOptions,
+		pluginId: string,
+		checkPermissions: boolean
+	): Promise<EmbeddingResult> {
+		const input = typeof options.input === 'string' ? [options.input] : options.input;
+		if (input.length === 0) {
+			throw new InvalidRequestError('Input is required');
+		}
+		throwIfAborted(options.abortSignal);
+
+		const startTime = Date.now();
+		const [resolution] = this.planRoutes(options, 'embedding');
+		const route = this.resolveRoute(options, resolution);
+		if (checkPermissions) {
+			this.permissionManager.checkRoute(pluginId, route.provider, resolution?.tier);
+		}
+		this.budgetManager.check(pluginId, route.model, route.provider);
+		const batchSize = Math.max(1, route.provider.maxEmbeddingBatchSize);
+
+		const result: EmbeddingResult = {
+			embeddings: [],
+			dimensions: 0,
+			model: route.model.id,
+			provider: route.provider.id,
+			namespace: toEmbeddingNamespace(route.provider.id, route.model.id),
+			tokens: { prompt: 0, total: 0 },
+		};
+
+		for (let start = 0; start < input.length; start += batchSize) {
+			throwIfAborted(options.abortSignal);
+
+			const batch = await route.provider.embed(input.slice(start, start + batchSize), {
+				model: route.model.id,
+				abortSignal: options.abortSignal,
+			});
+
+			result.embeddings.push(...batch.embeddings);
+			result.dimensions = batch.dimensions;
+			result.tokens.prompt += batch.tokens.prompt;
+			result.tokens.total += batch.tokens.total;
+		}
+
+		this.embeddingDimensions.set(result.namespace, result.dimensions);
+		this.recordUsage({
+			timestamp: startTime,
+			pluginId,
+			kind: 'embedding',
+			provider: route.provider.id,
+			model: route.model.id,
+			requestedTier: resolution?.requestedTier,
+			tier: resolution?.tier,
+			tokens: { prompt: result.tokens.prompt, completion: 0, total: result.tokens.total },
+			cost: estimateCost(route.model, { prompt: result.tokens.prompt, completion: 0 }),
+			latencyMs: Date.now() - startTime,
+			fallbackOccurred: false,
+		});
+		return result;
+	}
+
+	/**
+	 * Namespace of the model currently assigned to the embedding tier
+	 * @returns null if the embedding tier is not configured
+	 */
+	getEmbeddingNamespace(): EmbeddingNamespace | null {
+		const assignment = this.settings.tiers.embedding;
+		if (!assignment) {
+			return null;
+		}
+
+		const id = toEmbeddingNamespace(assignment.provider, assignment.model);
+		return {
+			id,
+			provider: assignment.provider,
+			model: assignment.model,
+			dimensions: this.embeddingDimensions.get(id),
+		};
+	}
+
+	/**
+	 * Whether stored vectors can be compared with new ones from the embedding tier
+	 * @param namespace Namespace the vectors were created with
+	 * @param dimensions Vector length, checked if both sides know it
+	 */
+	isEmbeddingCompatible(namespace: string, dimensions?: number): boolean {
+		const current = this.getEmbeddingNamespace();
+		if (!current || current.id !== namespace) {
+			return false;
+		}
+		return dimensions === undefined || current.dimensions === undefined || current.dimensions === dimensions;
+	}
+
+	/**
+	 * Update the settings reference (e.g., after settings change)
+	 */
+	updateSettings(settings: LLMConnectorSettings): void {
+		this.settings = settings;
+	}
+
+	/**
+	 * Validate request options
+	 */
+	private validate(options: CompletionOptions): void {
+		if (!options.prompt && !options.messages?.length) {
+			throw new InvalidRequestError('Prompt or messages is required');
+		}
+		validateTools(options);
+		if (options.responseFormat && options.responseFormat.type !== 'json') {
+			throw new InvalidRequestError(`Unsupported response format: ${String(options.responseFormat.type)}`);
+		}
+		throwIfAborted(options.abortSignal);
+	}
+
+	/**
+	 * Make sure the resolved model can handle the request's tools
+	 * @throws InvalidRequestError if the model doesn't support tool calling
+	 */
+	private checkToolSupport(options: CompletionOptions, route: Route): void {
+		if (!usesTools(options) || route.model.capabilities.includes('tools')) {
+			return;
+		}
+
+		const tier = route.resolution?.tier;
+		throw new InvalidRequestError(
+			`Model "${route.model.id}" (${route.provider.name}) does not support tool calling. ` +
+			(tier
+				? `Assign a model with tool support to the ${tier} tier in LLM Connector settings.`
+				: 'Choose a model with tool support.'),
+			{ provider: route.provider.id, model: route.model.id }
+		);
+	}
+
+	/**
+	 * Plan routes for a completion, as functions that resolve a route when it is tried
+	 * Requests with images default to the vision tier and only fall back to multimodal models.
+	 * Once a budget that falls back to free models is used up, the free models that can serve
+	 * the request are tried after the planned routes: the tier chain may contain none, and
+	 * explicit model requests have no chain at all.
+	 * @param isBudgetExhausted Whether a planned route was stopped by such a budget
+	 */
+	private *planCompletionRoutes(
+		options: CompletionOptions,
+		isBudgetExhausted: () => boolean
+	): Generator<() => Route, void, unknown> {
+		const requireMultimodal = hasImages(options);
+		const resolutions = requireMultimodal
+			? this.planRoutes(options, 'vision', true)
+			: this.planRoutes(options, this.settings.defaultTier);
+
+		const tried = new Set<string>();
+		for (const resolution of resolutions) {
+			yield () => {
+				const route = this.resolveRoute(options, resolution);
+				tried.add(toRouteKey(route));
+				return route;
+			};
+		}
+
+		if (!isBudgetExhausted()) {
+			return;
+		}
+		for (const route of this.getFreeRoutes(options, requireMultimodal)) {
+			if (!tried.has(toRouteKey(route))) {
+				yield () => route;
+			}
+		}
+	}
+
+	/**
+	 * Chat models of configured providers that cost nothing, local providers first
+	 * Only models that accept the request's images and tools are included.
+	 */
+	private getFreeRoutes(options: CompletionOptions, requireMultimodal: boolean): Route[] {
+		const routes: Route[] = [];
+		for (const model of this.modelRegistry.list({ tag: 'chat' })) {
+			if (requireMultimodal && !model.tags.includes('multimodal')) {
+				continue;
+			}
+			if (usesTools(options) && !model.capabilities.includes('tools')) {
+				continue;
+			}
+			const provider = this.providerManager.getProvider(model.provider);
+			if (provider?.isConfigured() && isFreeModel(model, provider)) {
+				routes.push({ model, provider });
+			}
+		}
+		return routes.sort((a, b) => Number(a.provider.isCloud) - Number(b.provider.isCloud));
+	}
+
+	/**
+	 * Plan which tier resolutions to try, in order
+	 * Explicit model requests have a single route without a resolution.
+	 * @param requireMultimodal Skip fallback tiers whose model isn't tagged multimodal
+	 *   (the requested tier's own model is the user's choice and always tried)
+	 */
+	private planRoutes(
+		options: RouteTarget,
+		defaultTier: PerformanceTier,
+		requireMultimodal = false
+	): Array<TierResolution | undefined> {
+		// Priority: explicit model > tier > default tier
+		if (options.model) {
+			return [undefined];
+		}
+
+		const tier = options.tier ?? defaultTier;
+		let resolutions: TierResolution[];
+		try {
+			resolutions = this.tierResolver.resolveChain(tier);
+		} catch (error: unknown) {
+			if (error instanceof TierNotConfiguredError) {
+				throw new TierNotConfiguredError(
+					tier,
+					`Tier resolution failed: ${error.message}. ` +
+					`Please configure tiers in LLM Connector settings.`
+				);
+			}
+			throw error;
+		}
+
+		if (requireMultimodal) {
+			resolutions = resolutions.filter(resolution =>
+				resolution.tier === tier || this.isMultimodal(resolution.assignment)
+			);
+			if (resolutions.length === 0) {
+				throw new TierNotConfiguredError(
+					tier,
+					`No multimodal model configured for tier "${tier}" or any fallback tier. ` +
+					`Please assign a vision model in LLM Connector settings.`
+				);
+			}
+		}
+
+		// Without runtime fallback only the first configured tier is used (see canFallBack)
+		return resolutions;
+	}
+
+	/**
+	 * Whether an assigned model accepts images
+	 */
+	private isMultimodal(assignment: ModelAssignment): boolean {
+		const model = this.modelRegistry.list({ provider: assignment.provider }).find(m => m.id === assignment.model);
+		return model?.tags.includes('multimodal') ?? false;
+	}
+
+	/**
+	 * Resolve a planned route to a registered model and a configured provider
+	 * @throws ModelNotFoundError or ProviderNotConfiguredError if the route is unavailable
+	 */
+	private resolveRoute(options: RouteTarget, resolution?: TierResolution): Route {
+		let model: Model | null;
+
+		if (resolution) {
+			const { provider, model: modelId } = resolution.assignment;
+			model = this.modelRegistry.list({ provider }).find(m => m.id === modelId) ?? null;
+			if (!model) {
+				throw new ModelNotFoundError(
+					`Model "${modelId}" from provider "${provider}" not found. ` +
+					`Is the provider connected?`,
+					{ provider, model: modelId }
+				);
+			}
+		} else {
+			model = this.modelRegistry.getByNameOrTag(options.model ?? '');
+			if (!model) {
+				throw new ModelNotFoundError(`Model not found: ${options.model ?? ''}`, { model: options.model });
+			}
+		}
+
+		const providerId = options.provider ?? model.provider;
+		const provider = this.providerManager.getProvider(providerId);
+
+		if (!provider) {
+			throw new ProviderNotConfiguredError(`Provider not found: ${providerId}`, { provider: providerId });
+		}
+
+		if (!provider.isConfigured()) {
+			throw new ProviderNotConfiguredError(`Provider ${providerId} is not configured`, {
+				provider: providerId,
+				model: model.id,
+			});
+		}
+
+		return { model, provider, resolution };
+	}
+
+	/**
+	 * Whether an error allows trying the next route
+	 * Budgets decide themselves whether to move on to free models, and routes a plugin may
+	 * not use are always skipped - even without runtime fallback.
+	 */
+	private canFallBack(error: unknown): boolean {
+		if (isAbortError(error)) {
+			return false;
+		}
+		if (error instanceof PermissionDeniedError) {
+			return true;
+		}
+		if (error instanceof BudgetExceededError) {
+			return error.budget.action === 'fallback_local';
+		}
+		if (!this.settings.fallbackOnError) {
+			return false;
+		}
+		return !(error instanceof LLMConnectorError && NON_FALLBACK_CODES.has(error.code));
+	}
+
+	/**
+	 * Classify a failure into a fallback reason
+	 */
+	private getFallbackReason(error: unknown): FallbackReason {
+		if (!(error instanceof LLMConnectorError)) {
+			return 'provider_error';
+		}
+
+		switch (error.code) {
+			case 'rate_limit':
+				return 'rate_limit';
+			case 'timeout':
+				return 'timeout';
+			case 'model_not_found':
+				return 'model_unavailable';
+			case 'budget_exceeded':
+				return 'budget_exceeded';
+			case 'permission_denied':
+				return 'permission_denied';
+			default:
+				return 'provider_error';
+		}
+	}
+
+	/**
+	 * Add tier and fallback metadata to a result
+	 */
+	private applyRouteMetadata(result: CompletionResult, route: Route, fallbackReason?: FallbackReason): void {
+		const resolution = route.resolution;
+		if (!resolution) {
+			// Explicit model, or a free model picked after a budget was used up
+			if (fallbackReason) {
+				result.fallbackOccurred = true;
+				result.fallbackReason = fallbackReason;
+			}
+			return;
+		}
+
+		result.requestedTier = resolution.requestedTier;
+		result.actualTier = resolution.tier;
+		result.fallbackOccurred = resolution.fallbackOccurred || fallbackReason !== undefined;
+		result.fallbackReason = fallbackReason ?? resolution.fallbackReason;
+	}
+
+	/**
+	 * Notify the user if the route is a fallback
+	 */
+	private reportFallback(route: Route, fallbackReason?: FallbackReason): void {
+		const resolution = route.resolution;
+		const reason = fallbackReason ?? resolution?.fallbackReason;
+		if (!resolution || !reason) {
+			return;
+		}
+		if (!resolution.fallbackOccurred && fallbackReason === undefined) {
+			return;
+		}
+
+		this.notificationManager.notifyFallback(resolution.requestedTier, resolution.tier, reason);
+	}
+
+	/**
+	 * Add a completion to the usage ledger
+	 */
+	private recordCompletion(options: CompletionOptions, route: Route, result: CompletionResult, startTime: number): void {
+		this.recordUsage({
+			timestamp: startTime,
+			pluginId: options.pluginId ?? UNKNOWN_PLUGIN_ID,
+			kind: 'completion',
+			provider: route.provider.id,
+			model: route.model.id,
+			requestedTier: result.requestedTier,
+			tier: result.actualTier,
+			tokens: { ...result.tokens },
+			cost: estimateCost(route.model, result.tokens),
+			latencyMs: Date.now() - startTime,
+			fallbackOccurred: result.fallbackOccurred ?? false,
+			fallbackReason: result.fallbackReason,
+		});
+	}
+
+	/**
+	 * Add a stream that ended without a final result to the usage ledger
+	 * Providers only report token counts at the end, so both sides are estimated.
+	 */
+	private recordPartialStream(
+		options: CompletionOptions,
+		route: Route,
+		sent: CompletionOptions,
+		text: string,
+		startTime: number,
+		fallbackReason?: FallbackReason
+	): void {
+		const prompt = this.contextManager.estimateRequestTokens(sent);
+		const completion = this.contextManager.estimateTokens(text);
+		const result: CompletionResult = {
+			text,
+			model: route.model.id,
+			provider: route.provider.id,
+			tokens: { prompt, completion, total: prompt + completion },
+		};
+		this.applyRouteMetadata(result, route, fallbackReason);
+		this.recordCompletion(options, route, result, startTime);
+	}
+
+	private recordUsage(record: UsageRecord): void {
+		if (this.settings.usageTrackingEnabled) {
+			this.usageLedger.record(record);
+		}
+	}
+
+	/**
+	 * Notify the user about a failed route
+	 */
+	private reportFailure(route: Route | null, error: unknown): void {
+		// Budget stops have already been reported by BudgetManager; permission limits are the user's choice
+		if (!route || error instanceof BudgetExceededError || error instanceof PermissionDeniedError) {
+			console.debug('[LLM Connector] Skipping unavailable route:', this.toError(error).message);
+			return;
+		}
+
+		this.notificationManager.notifyProviderError(
+			route.model.provider,
+			route.model.id,
+			this.toError(error).message
+		);
+	}
+
+	private toError(error: unknown): Error {
+		return error instanceof Error ? error : new ProviderError(String(error));
+	}
+}
+
+function toRouteKey(route: Route): string {
+	return `${route.provider.id}:${route.model.id}`;
+}
+
+function toEmbeddingNamespace(provider: string, model: string): string {
+	return `${provider}:${model}`;
+}
@@ -4,6 +4,7 @@ import type {
 	LLMConnectorSettings,
 	FallbackReason,
 } from '../types';
+import { InvalidRequestError, TierNotConfiguredError } from '../errors';
 
 /**
  * Result of tier resolution
@@ -26,6 +27,7 @@ const FALLBACK_CHAINS: Record<PerformanceTier, PerformanceTier[]> = {
 	advanced: ['advanced', 'balanced', 'fast'],
 	thinking: ['thinking', 'advanced', 'balanced', 'fast'],
 	code: ['code', 'advanced', 'balanced', 'fast'],
+	vision: ['vision', 'advanced', 'balanced', 'fast'],  // Callers keep multimodal models only
 	embedding: ['embedding'],  // NO FALLBACK
 };
 
@@ -37,16 +39,33 @@ export class TierResolver {
 
 	/**
 	 * Resolve a tier to a model assignment, with fallback if needed
-	 * @throws Error if no fallback is available (e.g., embedding tier not configured)
+	 * @throws TierNotConfiguredError if no fallback is available (e.g., embedding tier not configured)
 	 */
 	resolve(tier: PerformanceTier): TierResolution {
+		const [first] = this.resolveChain(tier);
+		if (!first) {
+			// resolveChain throws when nothing is configured - kept for strict mode
+			throw new TierNotConfiguredError(tier, `No model configured for tier "${tier}"`);
+		}
+		return first;
+	}
+
+	/**
+	 * Resolve every configured tier in the fallback chain, in order
+	 * Used for runtime fallback: if the first assignment fails at request time,
+	 * the caller moves on to the next one.
+	 * @throws TierNotConfiguredError if no tier in the chain is configured
+	 */
+	resolveChain(tier: PerformanceTier): TierResolution[] {
 		const chain = FALLBACK_CHAINS[tier];
 		
 		if (!chain || chain.length === 0) {
-			throw new Error(`Invalid tier: ${tier}`);
+			throw new InvalidRequestError(`Invalid tier: ${tier}`);
 		}
 
-		// Try each tier in the fallback chain
+		const resolutions: TierResolution[] = [];
+
+		// Collect each configured tier in the fallback chain
 		for (let i = 0; i < chain.length; i++) {
 			const currentTier = chain[i];
 			if (!currentTier) {
@@ -56,22 +75,26 @@ export class TierResolver {
 			const assignment = this.settings.tiers[currentTier];
 
 			if (assignment) {
-				// Found a configured tier
-				return {
+				resolutions.push({
 					assignment,
 					tier: currentTier,
 					fallbackOccurred: i > 0,
 					fallbackReason: i > 0 ? 'tier_not_configured' : undefined,
 					requestedTier: tier,
-				};
+				});
 			}
 		}
 
-		// No tier in the chain is configured
-		throw new Error(
-			`No model configured for tier "${tier}" or any fallback tier. ` +
-			`Please configure at least one of: ${chain.join(', ')}`
-		);
+		if (resolutions.length === 0) {
+			// No tier in the chain is configured
+			throw new TierNotConfiguredError(
+				tier,
+				`No model configured for tier "${tier}" or any fallback tier. ` +
+				`Please configure at least one of: ${chain.join(', ')}`
+			);
+		}
+
+		return resolutions;
 	}
 
 	/**
@@ -93,7 +116,7 @@ export class TierResolver {
 	 */
 	getConfiguredTiers(): PerformanceTier[] {
 		const tiers: PerformanceTier[] = [];
-		const tierKeys: PerformanceTier[] = ['fast', 'balanced', 'advanced', 'thinking', 'code', 'embedding'];
+		const tierKeys: PerformanceTier[] = ['fast', 'balanced', 'advanced', 'thinking', 'code', 'vision', 'embedding'];
 		
 		for (const tier of tierKeys) {
 			if (this.settings.tiers[tier]) {
@@ -109,7 +132,7 @@ export class TierResolver {
 	 */
 	getUnconfiguredTiers(): PerformanceTier[] {
 		const tiers: PerformanceTier[] = [];
-		const tierKeys: PerformanceTier[] = ['fast', 'balanced', 'advanced', 'thinking', 'code', 'embedding'];
+		const tierKeys: PerformanceTier[] = ['fast', 'balanced', 'advanced', 'thinking', 'code', 'vision', 'embedding'];
 		
 		for (const tier of tierKeys) {
 			if (!this.settings.tiers[tier]) {
@@ -0,0 +1,232 @@
+import type { App } from 'obsidian';
+import type { Model, UsageQuery, UsageRecord, UsageSummary, UsageTotals } from '../types';
+
+/**
+ * Bump when the stored format changes - older files are discarded
+ */
+const LEDGER_VERSION = 1;
+
+/**
+ * Records older than this are dropped
+ */
+const RETENTION_MS = 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * Upper bound on stored records, so the file stays small for heavy users
+ */
+const MAX_RECORDS = 20000;
+
+/**
+ * Wait after the last request before writing the ledger to disk
+ */
+const SAVE_DELAY_MS = 5000;
+
+/**
+ * Recorded when a request doesn't set pluginId
+ */
+export const UNKNOWN_PLUGIN_ID = 'unknown';
+
+interface SerializedLedger {
+	version: number;
+	records: UsageRecord[];
+}
+
+/**
+ * Cost of a request in USD from the model's per-million-token prices
+ */
+export function estimateCost(model: Model, tokens: { prompt: number; completion: number }): number {
+	if (!model.pricePerMillion) {
+		return 0;
+	}
+	return (tokens.prompt * model.pricePerMillion.prompt + tokens.completion * model.pricePerMillion.completion) / 1e6;
+}
+
+/**
+ * Persistent log of requests with token counts and cost
+ * Written by RequestRouter after each successful request and stored in the
+ * plugin folder; queries aggregate the records by plugin, provider, model, tier or day.
+ */
+export class UsageLedger {
+	private records: UsageRecord[] = [];
+	private loaded: Promise<void> | null = null;
+	private saveTimer: number | undefined;
+
+	constructor(
+		private app: App,
+		private storagePath: string
+	) {}
+
+	/**
+	 * Read stored records
+	 * Requests recorded before loading finished are kept.
+	 */
+	load(): Promise<void> {
+		if (!this.loaded) {
+			this.loaded = this.read().catch((error: unknown) => {
+				console.error('[LLM Connector] Failed to load usage ledger:', error);
+			});
+		}
+		return this.loaded;
+	}
+
+	/**
+	 * Append a request
+	 */
+	record(record: UsageRecord): void {
+		this.records.push(record);
+		this.prune();
+		this.scheduleSave();
+	}
+
+	/**
+	 * Aggregate records matching a query
+	 */
+	getSummary(query: UsageQuery = {}): UsageSummary {
+		const records = this.getRecords(query);
+		const summary: UsageSummary = summarize(records);
+
+		if (query.groupBy) {
+			const grouped = new Map<string, UsageRecord[]>();
+			for (const record of records) {
+				const key = getGroupKey(record, query.groupBy);
+				const group = grouped.get(key) ?? [];
+				group.push(record);
+				grouped.set(key, group);
+			}
+
+			summary.groups = {};
+			for (const [key, group] of grouped) {
+				summary.groups[key] = summarize(group);
+			}
+		}
+
+		return summary;
+	}
+
+	/**
+	 * Records matching a query, oldest first
+	 */
+	getRecords(query: UsageQuery = {}): UsageRecord[] {
+		return this.records.filter(record =>
+			(query.from === undefined || record.timestamp >= query.from) &&
+			(query.to === undefined || record.timestamp < query.to) &&
+			(query.pluginId === undefined || record.pluginId === query.pluginId) &&
+			(query.provider === undefined || record.provider === query.provider) &&
+			(query.model === undefined || record.model === query.model) &&
+			(query.tier === undefined || record.tier === query.tier)
+		);
+	}
+
+	/**
+	 * Delete all records
+	 */
+	async clear(): Promise<void> {
+		await this.load();
+		this.records = [];
+		window.clearTimeout(this.saveTimer);
+		this.saveTimer = undefined;
+		await this.save();
+	}
+
+	/**
+	 * Write pending records immediately (e.g. on unload)
+	 */
+	async flush(): Promise<void> {
+		if (this.saveTimer === undefined) {
+			return;
+		}
+		window.clearTimeout(this.saveTimer);
+		this.saveTimer = undefined;
+		await this.save();
+	}
+
+	private prune(): void {
+		const cutoff = Date.now() - RETENTION_MS;
+		const firstKept = this.records.findIndex(record => record.timestamp >= cutoff);
+		if (firstKept > 0) {
+			this.records.splice(0, firstKept);
+		} else if (firstKept === -1) {
+			this.records = [];
+		}
+		if (this.records.length > MAX_RECORDS) {
+			this.records.splice(0, this.records.length - MAX_RECORDS);
+		}
+	}
+
+	private scheduleSave(): void {
+		window.clearTimeout(this.saveTimer);
+		this.saveTimer = window.setTimeout(() => {
+			this.saveTimer = undefined;
+			this.save().catch((error: unknown) => {
+				console.error('[LLM Connector] Failed to save usage ledger:', error);
+			});
+		}, SAVE_DELAY_MS);
+	}
+
+	private async read(): Promise<void> {
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(this.storagePath))) {
+			return;
+		}
+
+		const data = JSON.parse(await adapter.read(this.storagePath)) as SerializedLedger;
+		if (data.version !== LEDGER_VERSION) {
+			console.debug('[LLM Connector] Usage ledger format changed, starting a new ledger');
+			return;
+		}
+
+		this.records = [...data.records, ...this.records];
+		this.prune();
+	}
+
+	private async save(): Promise<void> {
+		// Never overwrite stored records that haven't been read yet
+		await this.load();
+		const data: SerializedLedger = { version: LEDGER_VERSION, records: this.records };
+		await this.app.vault.adapter.write(this.storagePath, JSON.stringify(data));
+	}
+}
+
+function summarize(records: UsageRecord[]): UsageTotals {
+	const totals: UsageTotals = {
+		requests: records.length,
+		tokens: { prompt: 0, completion: 0, total: 0 },
+		cost: 0,
+		averageLatencyMs: 0,
+		fallbacks: 0,
+	};
+
+	let latency = 0;
+	for (const record of records) {
+		totals.tokens.prompt += record.tokens.prompt;
+		totals.tokens.completion += record.tokens.completion;
+		totals.tokens.total += record.tokens.total;
+		totals.cost += record.cost;
+		latency += record.latencyMs;
+		if (record.fallbackOccurred) {
+			totals.fallbacks++;
+		}
+	}
+	totals.averageLatencyMs = records.length > 0 ? Math.round(latency / records.length) : 0;
+
+	return totals;
+}
+
+function getGroupKey(record: UsageRecord, groupBy: NonNullable<UsageQuery['groupBy']>): string {
+	switch (groupBy) {
+		case 'plugin':
+			return record.pluginId;
+		case 'provider':
+			return record.provider;
+		case 'model':
+			return `${record.provider}:${record.model}`;
+		case 'tier':
+			return record.tier ?? 'none';
+		case 'day': {
+			const date = new Date(record.timestamp);
+			const month = String(date.getMonth() + 1).padStart(2, '0');
+			const day = String(date.getDate()).padStart(2, '0');
+			return `${date.getFullYear()}-${month}-${day}`;
+		}
+	}
+}
@@ -0,0 +1,573 @@
+import { TFile, arrayBufferToBase64, base64ToArrayBuffer } from 'obsidian';
+import type { App, TAbstractFile } from 'obsidian';
+import { InvalidRequestError, LLMConnectorError } from '../errors';
+import type {
+	EmbeddingIndexStatus,
+	EmbeddingNamespace,
+	EmbeddingOptions,
+	EmbeddingResult,
+	SimilarityResult,
+} from '../types';
+
+/**
+ * Bump when the stored format changes - older files are discarded and rebuilt
+ */
+const INDEX_VERSION = 2;
+
+/**
+ * Target chunk size; paragraphs are packed together up to this length
+ */
+const MAX_CHUNK_CHARS = 1500;
+
+/**
+ * Wait after the last change before re-embedding a note (typing produces many modify events)
+ */
+const UPDATE_DELAY_MS = 2000;
+
+/**
+ * Wait after the last update before writing the index to disk
+ */
+const SAVE_DELAY_MS = 5000;
+
+/**
+ * Wait before retrying after a provider or configuration error stopped indexing;
+ * doubles with every failed retry up to MAX_RETRY_DELAY_MS
+ */
+const RETRY_DELAY_MS = 60000;
+const MAX_RETRY_DELAY_MS = 30 * 60000;
+
+/**
+ * Errors that only affect a single note - indexing continues with the next one
+ */
+const PER_FILE_ERROR_CODES = new Set(['context_length_exceeded', 'invalid_request']);
+
+/**
+ * Embedding function the index uses (RequestRouter.embedInternal for notes)
+ */
+export type EmbedFunction = (options: EmbeddingOptions) => Promise<EmbeddingResult>;
+
+interface IndexedChunk {
+	text: string;
+	vector: Float32Array;  // Normalized, so cosine similarity is a dot product
+}
+
+interface IndexedFile {
+	mtime: number;
+	chunks: IndexedChunk[];
+}
+
+/**
+ * On-disk format - vectors are base64-encoded Float32Arrays to keep the file small
+ */
+interface SerializedIndex {
+	version: number;
+	namespace: string;
+	dimensions: number;
+	files: Record<string, {
+		mtime: number;
+		chunks: Array<{ text: string; vector: string }>;
+	}>;
+}
+
+/**
+ * Shared embedding index of the vault's markdown notes
+ * Notes are split into chunks, embedded through the embedding tier and stored
+ * in the plugin folder. Vault events keep the index up to date incrementally.
+ * All vectors belong to one embedding namespace; when the embedding model
+ * changes, the index is rebuilt.
+ */
+export class VectorIndex {
+	private files = new Map<string, IndexedFile>();
+	private namespace = '';
+	private dimensions = 0;
+
+	private enabled = false;
+	private loaded: Promise<void> | null = null;
+	private pending = new Set<string>();
+	private processing = false;
+	private updateTimer: number | undefined;
+	private saveTimer: number | undefined;
+	private retryTimer: number | undefined;
+	private retryDelay = RETRY_DELAY_MS;
+	private lastError: string | undefined;
+
+	constructor(
+		private app: App,
+		private embed: EmbedFunction,
+		private getNamespace: () => EmbeddingNamespace | null,
+		private storagePath: string
+	) {}
+
+	/**
+	 * Start indexing: load stored vectors, then catch up with changes made while disabled
+	 */
+	async enable(): Promise<void> {
+		this.enabled = true;
+		await this.load();
+
+		// Embedding model changed while the index was disabled
+		const current = this.getNamespace();
+		if (current && this.namespace && current.id !== this.namespace) {
+			console.debug(
+				`[LLM Connector] Embedding model changed (${this.namespace} → ${current.id}), rebuilding index`
+			);
+			this.reset(current.id);
+		}
+
+		this.sync();
+	}
+
+	/**
+	 * Stop indexing; stored vectors are kept so re-enabling only embeds what changed
+	 */
+	async disable(): Promise<void> {
+		this.enabled = false;
+		this.pending.clear();
+		window.clearTimeout(this.updateTimer);
+		window.clearTimeout(this.retryTimer);
+		this.retryTimer = undefined;
+		await this.flush();
+	}
+
+	/**
+	 * Find the note chunks most similar to a query
+	 * @param query Text to search for
+	 * @param k Number of results
+	 * @param embedQuery Embeds the query on behalf of the calling plugin
+	 * @throws InvalidRequestError if the index is disabled
+	 */
+	async search(query: string, k: number, embedQuery: EmbedFunction): Promise<SimilarityResult[]> {
+		if (!this.enabled) {
+			throw new InvalidRequestError(
+				'Embedding index is disabled. Enable it in LLM Connector settings.'
+			);
+		}
+		await this.load();
+
+		const { embeddings, namespace } = await embedQuery({ input: query });
+		if (this.namespace && namespace !== this.namespace) {
+			// Stored vectors come from another model - the index is being rebuilt
+			return [];
+		}
+		const queryVector = normalize(embeddings[0] ?? []);
+
+		const results: SimilarityResult[] = [];
+		for (const [path, file] of this.files) {
+			for (const chunk of file.chunks) {
+				if (chunk.vector.length !== queryVector.length) {
+					continue;
+				}
+				results.push({ path, text: chunk.text, score: dot(queryVector, chunk.vector) });
+			}
+		}
+
+		return results
+			.sort((a, b) => b.score - a.score)
+			.slice(0, Math.max(0, k));
+	}
+
+	/**
+	 * Re-embed a note after it was created or modified
+	 */
+	onModify(file: TAbstractFile): void {
+		if (!this.enabled || !isMarkdownFile(file)) {
+			return;
+		}
+		this.pending.add(file.path);
+		this.scheduleUpdate();
+	}
+
+	/**
+	 * Move a note's vectors to its new path - content is unchanged
+	 */
+	onRename(file: TAbstractFile, oldPath: string): void {
+		if (!this.enabled) {
+			return;
+		}
+
+		const indexed = this.files.get(oldPath);
+		this.files.delete(oldPath);
+		if (this.pending.delete(oldPath) || (!indexed && isMarkdownFile(file))) {
+			this.pending.add(file.path);
+			this.scheduleUpdate();
+		}
+		if (indexed && isMarkdownFile(file)) {
+			this.files.set(file.path, indexed);
+		}
+		this.scheduleSave();
+	}
+
+	/**
+	 * Drop a deleted note from the index
+	 */
+	onDelete(file: TAbstractFile): void {
+		if (!this.enabled) {
+			return;
+		}
+		this.pending.delete(file.path);
+		if (this.files.delete(file.path)) {
+			this.scheduleSave();
+		}
+	}
+
+	/**
+	 * Rebuild the index after the embedding tier was assigned another model
+	 */
+	onEmbeddingModelChanged(current: EmbeddingNamespace | null): void {
+		if (!this.enabled || !current || current.id === this.namespace) {
+			return;
+		}
+		console.debug(`[LLM Connector] Embedding model changed to ${current.id}, rebuilding index`);
+		this.reset(current.id);
+		this.sync();
+	}
+
+	/**
+	 * Try the notes left over by a failed update again, e.g. after the settings
+	 * or the model list changed and the problem may be fixed
+	 */
+	retryPending(): void {
+		if (!this.enabled || this.lastError === undefined || this.pending.size === 0) {
+			return;
+		}
+		window.clearTimeout(this.retryTimer);
+		this.retryTimer = undefined;
+		this.scheduleUpdate();
+	}
+
+	/**
+	 * Throw away all vectors and embed the whole vault again
+	 */
+	async rebuild(): Promise<void> {
+		await this.load();
+		this.reset(this.getNamespace()?.id ?? '');
+		this.sync();
+	}
+
+	/**
+	 * Current size and state of the index
+	 */
+	getStatus(): EmbeddingIndexStatus {
+		let chunks = 0;
+		for (const file of this.files.values()) {
+			chunks += file.chunks.length;
+		}
+
+		return {
+			enabled: this.enabled,
+			files: this.files.size,
+			chunks,
+			pending: this.pending.size,
+			namespace: this.namespace || undefined,
+			lastError: this.lastError,
+		};
+	}
+
+	/**
+	 * Write pending changes to disk (e.g., on plugin unload)
+	 */
+	async flush(): Promise<void> {
+		if (this.saveTimer === undefined) {
+			return;
+		}
+		window.clearTimeout(this.saveTimer);
+		this.saveTimer = undefined;
+		await this.save();
+	}
+
+	/**
+	 * Drop all vectors, e.g. because they belong to another embedding model
+	 */
+	private reset(namespace: string): void {
+		this.files.clear();
+		this.namespace = namespace;
+		this.dimensions = 0;
+		this.lastError = undefined;
+		this.scheduleSave();
+	}
+
+	/**
+	 * Queue every note that is new, changed or missing from the index
+	 */
+	private sync(): void {
+		const markdownFiles = this.app.vault.getMarkdownFiles();
+		const existing = new Set<string>();
+
+		for (const file of markdownFiles) {
+			existing.add(file.path);
+			const indexed = this.files.get(file.path);
+			if (!indexed || indexed.mtime !== file.stat.mtime) {
+				this.pending.add(file.path);
+			}
+		}
+
+		// Notes deleted while the index was disabled
+		for (const path of [...this.files.keys()]) {
+			if (!existing.has(path)) {
+				this.files.delete(path);
+				this.scheduleSave();
+			}
+		}
+
+		this.processPending();
+	}
+
+	private scheduleUpdate(): void {
+		window.clearTimeout(this.updateTimer);
+		this.updateTimer = window.setTimeout(() => this.processPending(), UPDATE_DELAY_MS);
+	}
+
+	private scheduleRetry(): void {
+		window.clearTimeout(this.retryTimer);
+		this.retryTimer = window.setTimeout(() => {
+			this.retryTimer = undefined;
+			this.processPending();
+		}, this.retryDelay);
+		this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY_MS);
+	}
+
+	private scheduleSave(): void {
+		window.clearTimeout(this.saveTimer);
+		this.saveTimer = window.setTimeout(() => {
+			this.saveTimer = undefined;
+			this.save().catch((error: unknown) => {
+				console.error('[LLM Connector] Failed to save embedding index:', error);
+			});
+		}, SAVE_DELAY_MS);
+	}
+
+	/**
+	 * Embed queued notes one at a time
+	 * Only one run is active; notes queued meanwhile are picked up by the same run.
+	 */
+	private processPending(): void {
+		if (this.processing) {
+			return;
+		}
+
+		this.processing = true;
+		this.embedPending().catch((error: unknown) => {
+			console.error('[LLM Connector] Embedding index update failed:', error);
+		});
+	}
+
+	private async embedPending(): Promise<void> {
+		try {
+			while (this.enabled && this.pending.size > 0) {
+				const [path] = this.pending;
+				if (path === undefined) {
+					break;
+				}
+				this.pending.delete(path);
+
+				const file = this.app.vault.getAbstractFileByPath(path);
+				if (!isMarkdownFile(file)) {
+					continue;
+				}
+
+				try {
+					await this.indexFile(file);
+					this.lastError = undefined;
+					this.retryDelay = RETRY_DELAY_MS;
+				} catch (error: unknown) {
+					const message = error instanceof Error ? error.message : String(error);
+					if (error instanceof LLMConnectorError && PER_FILE_ERROR_CODES.has(error.code)) {
+						console.warn(`[LLM Connector] Skipping ${path} in embedding index:`, message);
+						continue;
+					}
+
+					// Configuration or provider problem - every other note would fail the same way
+					console.error('[LLM Connector] Embedding index update stopped:', error);
+					this.lastError = message;
+					this.pending.add(path);
+					this.scheduleRetry();
+					break;
+				}
+			}
+		} finally {
+			this.processing = false;
+		}
+	}
+
+	/**
+	 * Chunk and embed a single note
+	 */
+	private async indexFile(file: TFile): Promise<void> {
+		const content = await this.app.vault.cachedRead(file);
+		const chunks = chunkMarkdown(content);
+
+		if (chunks.length === 0) {
+			this.files.set(file.path, { mtime: file.stat.mtime, chunks: [] });
+			this.scheduleSave();
+			return;
+		}
+
+		// The note title gives short chunks some context
+		const result = await this.embed({
+			input: chunks.map(chunk => `${file.basename}\n\n${chunk}`),
+		});
+
+		// Note may have changed or been deleted while we were waiting
+		if (!this.enabled || this.app.vault.getAbstractFileByPath(file.path) !== file) {
+			return;
+		}
+
+		// Vectors from different models can't be mixed - start over with the new one
+		if (this.namespace && result.namespace !== this.namespace && this.files.size > 0) {
+			console.debug(
+				`[LLM Connector] Embedding model changed (${this.namespace} → ${result.namespace}), rebuilding index`
+			);
+			this.reset(result.namespace);
+			for (const markdownFile of this.app.vault.getMarkdownFiles()) {
+				this.pending.add(markdownFile.path);
+			}
+			this.pending.delete(file.path);
+		}
+
+		this.namespace = result.namespace;
+		this.dimensions = result.dimensions;
+
+		this.files.set(file.path, {
+			mtime: file.stat.mtime,
+			chunks: chunks.map((text, index) => ({
+				text,
+				vector: normalize(result.embeddings[index] ?? []),
+			})),
+		});
+		this.scheduleSave();
+	}
+
+	/**
+	 * Load the stored index once
+	 */
+	private load(): Promise<void> {
+		if (!this.loaded) {
+			this.loaded = this.read().catch((error: unknown) => {
+				console.error('[LLM Connector] Failed to load embedding index, rebuilding:', error);
+				this.files.clear();
+			});
+		}
+		return this.loaded;
+	}
+
+	private async read(): Promise<void> {
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(this.storagePath))) {
+			return;
+		}
+
+		const data = JSON.parse(await adapter.read(this.storagePath)) as SerializedIndex;
+		if (data.version !== INDEX_VERSION) {
+			console.debug('[LLM Connector] Embedding index format changed, rebuilding');
+			return;
+		}
+
+		this.namespace = data.namespace;
+		this.dimensions = data.dimensions;
+		for (const [path, file] of Object.entries(data.files)) {
+			this.files.set(path, {
+				mtime: file.mtime,
+				chunks: file.chunks.map(chunk => ({
+					text: chunk.text,
+					vector: new Float32Array(base64ToArrayBuffer(chunk.vector)),
+				})),
+			});
+		}
+
+		console.debug(`[LLM Connector] Loaded embedding index: ${this.files.size} notes`);
+	}
+
+	private async save(): Promise<void> {
+		const data: SerializedIndex = {
+			version: INDEX_VERSION,
+			namespace: this.namespace,
+			dimensions: this.dimensions,
+			files: {},
+		};
+
+		for (const [path, file] of this.files) {
+			data.files[path] = {
+				mtime: file.mtime,
+				chunks: file.chunks.map(chunk => ({
+					text: chunk.text,
+					vector: arrayBufferToBase64(chunk.vector.buffer),
+				})),
+			};
+		}
+
+		await this.app.vault.adapter.write(this.storagePath, JSON.stringify(data));
+	}
+}
+
+function isMarkdownFile(file: TAbstractFile | null): file is TFile {
+	return file instanceof TFile && file.extension === 'md';
+}
+
+/**
+ * Split a note into chunks of up to MAX_CHUNK_CHARS
+ * Frontmatter is skipped; paragraphs are kept together where possible and
+ * a heading always starts a new chunk.
+ */
+function chunkMarkdown(content: string): string[] {
+	const body = content.replace(/^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/, '');
+	const paragraphs = body
+		.split(/\r?\n\s*\r?\n/)
+		.map(paragraph => paragraph.trim())
+		.filter(paragraph => paragraph.length > 0);
+
+	const chunks: string[] = [];
+	let current = '';
+
+	const pushCurrent = (): void => {
+		if (current) {
+			chunks.push(current);
+			current = '';
+		}
+	};
+
+	for (const paragraph of paragraphs) {
+		if (paragraph.startsWith('#')) {
+			pushCurrent();
+		}
+
+		if (paragraph.length > MAX_CHUNK_CHARS) {
+			pushCurrent();
+			for (let start = 0; start < paragraph.length; start += MAX_CHUNK_CHARS) {
+				chunks.push(paragraph.slice(start, start + MAX_CHUNK_CHARS));
+			}
+			continue;
+		}
+
+		if (current && current.length + paragraph.length + 2 > MAX_CHUNK_CHARS) {
+			pushCurrent();
+		}
+		current = current ? `${current}\n\n${paragraph}` : paragraph;
+	}
+	pushCurrent();
+
+	return chunks;
+}
+
+function normalize(vector: number[] | Float32Array): Float32Array {
+	const result = new Float32Array(vector);
+	let norm = 0;
+	for (const value of result) {
+		norm += value * value;
+	}
+	norm = Math.sqrt(norm);
+
+	if (norm > 0) {
+		for (let i = 0; i < result.length; i++) {
+			result[i] = (result[i] ?? 0) / norm;
+		}
+	}
+	return result;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+	let sum = 0;
+	for (let i = 0; i < a.length; i++) {
+		sum += (a[i] ?? 0) * (b[i] ?? 0);
+	}
+	return sum;
+}
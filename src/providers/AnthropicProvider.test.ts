@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnthropicProvider } from './AnthropicProvider';
+import { AuthenticationError, ProviderError, RateLimitError } from '../errors';
+import type { CompletionResult } from '../types';
+
+const fetchMock = vi.fn<unknown[], Promise<Response>>();
+
+/**
+ * Response whose body carries the given events as server-sent events
+ */
+function createResponse(events: Array<Record<string, unknown>>): Response {
+	const body = events.map(event => `event: ${String(event.type)}\ndata: ${JSON.stringify(event)}\n\n`).join('');
+	const encoder = new TextEncoder();
+	return new Response(new ReadableStream<Uint8Array>({
+		start(controller) {
+			// Split mid-event to exercise line reassembly
+			const middle = Math.floor(body.length / 2);
+			controller.enqueue(encoder.encode(body.slice(0, middle)));
+			controller.enqueue(encoder.encode(body.slice(middle)));
+			controller.close();
+		},
+	}), { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+/**
+ * Stream a completion, collecting the yielded chunks and the final result
+ */
+async function runStream(
+	events: Array<Record<string, unknown>>,
+	onError?: (error: Error) => void
+): Promise<{ yielded: string[]; result?: CompletionResult }> {
+	fetchMock.mockResolvedValue(createResponse(events));
+	const provider = new AnthropicProvider({ id: 'anthropic', enabled: true, apiKey: 'sk-ant-test', maxRetries: 0 });
+
+	const yielded: string[] = [];
+	let result: CompletionResult | undefined;
+	const options = {
+		prompt: 'Hi',
+		model: 'claude-sonnet-4-5',
+		onComplete: (done: CompletionResult) => { result = done; },
+		onError,
+	};
+	for await (const chunk of provider.stream(options)) {
+		yielded.push(chunk);
+	}
+	return { yielded, result };
+}
+
+const MESSAGE_START = {
+	type: 'message_start',
+	message: { model: 'claude-sonnet-4-5-20250929', usage: { input_tokens: 25, output_tokens: 1 } },
+};
+
+function textDelta(index: number, text: string): Record<string, unknown> {
+	return { type: 'content_block_delta', index, delta: { type: 'text_delta', text } };
+}
+
+function messageDelta(stopReason: string, outputTokens: number): Record<string, unknown> {
+	return { type: 'message_delta', delta: { stop_reason: stopReason }, usage: { output_tokens: outputTokens } };
+}
+
+describe('AnthropicProvider.stream', () => {
+	beforeEach(() => {
+		vi.stubGlobal('window', globalThis);
+		vi.stubGlobal('fetch', fetchMock);
+		vi.spyOn(console, 'debug').mockImplementation(() => undefined);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+		fetchMock.mockReset();
+	});
+
+	it('yields text deltas and reports usage from message_start and message_delta', async () => {
+		const { yielded, result } = await runStream([
+			MESSAGE_START,
+			{ type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+			{ type: 'ping' },
+			textDelta(0, 'Hello'),
+			textDelta(0, ' there'),
+			{ type: 'content_block_stop', index: 0 },
+			messageDelta('end_turn', 7),
+			{ type: 'message_stop' },
+		]);
+
+		expect(yielded).toEqual(['Hello', ' there']);
+		expect(result?.text).toBe('Hello there');
+		expect(result?.model).toBe('claude-sonnet-4-5-20250929');
+		expect(result?.finishReason).toBe('stop');
+		expect(result?.tokens).toEqual({ prompt: 25, completion: 7, total: 32 });
+	});
+
+	it('maps max_tokens to length', async () => {
+		const { result } = await runStream([
+			MESSAGE_START,
+			textDelta(0, 'Cut'),
+			messageDelta('max_tokens', 1),
+			{ type: 'message_stop' },
+		]);
+
+		expect(result?.finishReason).toBe('length');
+	});
+
+	it('assembles tool calls from streamed partial JSON', async () => {
+		const { yielded, result } = await runStream([
+			MESSAGE_START,
+			textDelta(0, 'Let me look.'),
+			{ type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'search' } },
+			{ type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"query": "ob' } },
+			{ type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: 'sidian"}' } },
+			{ type: 'content_block_stop', index: 1 },
+			messageDelta('tool_use', 20),
+			{ type: 'message_stop' },
+		]);
+
+		expect(yielded).toEqual(['Let me look.']);
+		expect(result?.finishReason).toBe('tool_calls');
+		expect(result?.toolCalls).toEqual([{ id: 'toolu_1', name: 'search', arguments: { query: 'obsidian' } }]);
+	});
+
+	it('throws a retryable ProviderError for an overloaded error event mid-stream', async () => {
+		const onError = vi.fn();
+		const yielded: string[] = [];
+		fetchMock.mockResolvedValue(createResponse([
+			MESSAGE_START,
+			textDelta(0, 'Partial'),
+			{ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } },
+			messageDelta('end_turn', 5),
+		]));
+		const provider = new AnthropicProvider({ id: 'anthropic', enabled: true, apiKey: 'sk-ant-test', maxRetries: 0 });
+
+		let error: unknown;
+		try {
+			for await (const chunk of provider.stream({ prompt: 'Hi', onError })) {
+				yielded.push(chunk);
+			}
+		} catch (caught: unknown) {
+			error = caught;
+		}
+
+		expect(yielded).toEqual(['Partial']);
+		expect(error).toBeInstanceOf(ProviderError);
+		expect((error as ProviderError).retryable).toBe(true);
+		expect((error as ProviderError).message).toContain('Overloaded');
+		expect(onError).toHaveBeenCalledWith(error);
+	});
+
+	it('maps error event types to typed errors', async () => {
+		await expect(runStream([
+			{ type: 'error', error: { type: 'rate_limit_error', message: 'Too many requests' } },
+		])).rejects.toBeInstanceOf(RateLimitError);
+		await expect(runStream([
+			{ type: 'error', error: { type: 'authentication_error', message: 'invalid x-api-key' } },
+		])).rejects.toBeInstanceOf(AuthenticationError);
+
+		const unknownType = runStream([{ type: 'error', error: { type: 'invalid_request_error', message: 'Bad' } }]);
+		await expect(unknownType).rejects.toBeInstanceOf(ProviderError);
+		await expect(unknownType).rejects.toThrow('invalid_request_error: Bad');
+	});
+});
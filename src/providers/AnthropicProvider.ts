@@ -1,12 +1,22 @@
 import { LLMProvider } from './LLMProvider';
-import { requestUrl } from 'obsidian';
+import { AuthenticationError, InvalidRequestError, ProviderError, ProviderNotConfiguredError, RateLimitError } from '../errors';
+import type { LLMConnectorError } from '../errors';
+import { encodeImage } from '../utils/images';
+import { getToolParameters, parseToolArguments } from '../utils/tools';
+import { streamRequest, readLines, parseServerSentEvents } from '../utils/streaming';
 import type {
+	ChatMessage,
 	CompletionOptions,
 	CompletionResult,
 	StreamOptions,
 	Model,
 	ModelTag,
 	ConnectionResult,
+	ProviderEmbeddingResult,
+	ProviderEmbeddingOptions,
+	JsonSchema,
+	ToolCall,
+	ToolChoice,
 } from '../types';
 
 /**
@@ -15,9 +25,30 @@ import type {
  */
 interface AnthropicMessage {
 	role: 'user' | 'assistant';
-	content: string | Array<{ type: 'text'; text: string }>;
+	content: string | AnthropicContentBlock[];
 }
 
+type AnthropicContentBlock =
+	| { type: 'text'; text: string }
+	| { type: 'image'; source: { type: 'base64'; media_type: string; data: string } }
+	| AnthropicToolUseBlock
+	| { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicToolUseBlock {
+	type: 'tool_use';
+	id: string;
+	name: string;
+	input: Record<string, unknown>;
+}
+
+interface AnthropicTool {
+	name: string;
+	description?: string;
+	input_schema: JsonSchema;
+}
+
+type AnthropicToolChoice = { type: 'auto' | 'any' | 'none' } | { type: 'tool'; name: string };
+
 interface AnthropicRequest {
 	model: string;
 	messages: AnthropicMessage[];
@@ -26,18 +57,20 @@ interface AnthropicRequest {
 	temperature?: number;
 	top_p?: number;
 	stop_sequences?: string[];
+	stream?: boolean;
+	tools?: AnthropicTool[];
+	tool_choice?: AnthropicToolChoice;
 }
 
+type AnthropicStopReason = 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use' | null;
+
 interface AnthropicResponse {
 	id: string;
 	type: 'message';
 	role: 'assistant';
-	content: Array<{
-		type: 'text';
-		text: string;
-	}>;
+	content: Array<{ type: 'text'; text: string } | AnthropicToolUseBlock>;
 	model: string;
-	stop_reason: 'end_turn' | 'max_tokens' | 'stop_sequence' | null;
+	stop_reason: AnthropicStopReason;
 	usage: {
 		input_tokens: number;
 		output_tokens: number;
@@ -52,6 +85,50 @@ interface AnthropicErrorResponse {
 	};
 }
 
+/**
+ * Anthropic streaming events
+ * Based on https://docs.anthropic.com/en/api/messages-streaming
+ */
+type AnthropicStreamEvent =
+	| {
+		type: 'message_start';
+		message: {
+			id: string;
+			model: string;
+			usage: {
+				input_tokens: number;
+				output_tokens: number;
+			};
+		};
+	}
+	| {
+		type: 'content_block_start';
+		index: number;
+		content_block: { type: string; text?: string; id?: string; name?: string };
+	}
+	| {
+		type: 'content_block_delta';
+		index: number;
+		delta: { type: string; text?: string; partial_json?: string };
+	}
+	| {
+		type: 'content_block_stop';
+		index: number;
+	}
+	| {
+		type: 'message_delta';
+		delta: {
+			stop_reason: AnthropicStopReason;
+			stop_sequence?: string | null;
+		};
+		usage: {
+			output_tokens: number;
+		};
+	}
+	| { type: 'message_stop' }
+	| { type: 'ping' }
+	| AnthropicErrorResponse;
+
 /**
  * Anthropic provider implementation
  * Supports Claude models from Anthropic
@@ -147,7 +224,7 @@ export class AnthropicProvider extends LLMProvider {
 	listModels(): Promise<Model[]> {
 		// Validate API key is present
 		if (!this.config.apiKey) {
-			throw new Error('Anthropic API key is required');
+			throw new ProviderNotConfiguredError('Anthropic API key is required', { provider: this.id });
 		}
 
 		// Return hardcoded list of Claude models
@@ -158,8 +235,8 @@ export class AnthropicProvider extends LLMProvider {
 			contextWindow: model.contextWindow,
 			maxTokens: model.maxTokens,
 			tags: model.tags,
-			capabilities: ['text'],
-			costPerToken: model.pricing,
+			capabilities: ['text', 'tools'],
+			...this.toPricing(model.pricing.prompt, model.pricing.completion),
 		})));
 	}
 
@@ -171,70 +248,38 @@ export class AnthropicProvider extends LLMProvider {
 		const apiKey = this.config.apiKey;
 
 		if (!apiKey) {
-			throw new Error('Anthropic API key is required');
+			throw new ProviderNotConfiguredError('Anthropic API key is required', { provider: this.id });
 		}
 
-		// Build messages array
-		const messages: AnthropicMessage[] = [
-			{
-				role: 'user',
-				content: options.prompt,
-			},
-		];
-
-		// Build request body
-		const requestBody: AnthropicRequest = {
-			model: options.model ?? this.config.defaultModel ?? 'claude-sonnet-4-5',
-			messages,
-			max_tokens: options.maxTokens ?? 4096,
-		};
-
-		// Add system prompt if provided
-		if (options.systemPrompt) {
-			requestBody.system = options.systemPrompt;
-		}
-
-		// Add optional parameters
-		if (options.temperature !== undefined) {
-			requestBody.temperature = options.temperature;
-		}
-		if (options.topP !== undefined) {
-			requestBody.top_p = options.topP;
-		}
-		if (options.stop) {
-			requestBody.stop_sequences = options.stop;
-		}
+		const requestBody = this.buildRequestBody(options);
 
 		try {
 			const startTime = Date.now();
 			
-			const response = await requestUrl({
+			const response = await this.request({
 				url: `${baseUrl}/messages`,
 				method: 'POST',
-				headers: {
-					'x-api-key': apiKey,
-					'anthropic-version': '2023-06-01',
-					'Content-Type': 'application/json',
-				},
+				headers: this.getHeaders(apiKey),
 				body: JSON.stringify(requestBody),
-			});
+			}, options.abortSignal);
 
 			const endTime = Date.now();
 			const durationMs = endTime - startTime;
 
-			// Check for error response
-			if (response.status !== 200) {
-				const errorData = response.json as AnthropicErrorResponse;
-				throw new Error(errorData.error.message);
-			}
-
 			const data = response.json as AnthropicResponse;
 
-			// Extract text from content blocks
-			const text = data.content
-				.filter(block => block.type === 'text')
-				.map(block => block.text)
-				.join('\n');
+			// Extract text and tool calls from content blocks
+			const textParts: string[] = [];
+			const toolCalls: ToolCall[] = [];
+			for (const block of data.content) {
+				if (block.type === 'text') {
+					textParts.push(block.text);
+				} else if (block.type === 'tool_use') {
+					toolCalls.push({ id: block.id, name: block.name, arguments: block.input });
+				}
+			}
+			// The prefilled start of a JSON answer isn't repeated in the response
+			const text = (this.getJsonPrefill(options) ?? '') + textParts.join('\n');
 
 			const usage = data.usage;
 
@@ -254,46 +299,322 @@ export class AnthropicProvider extends LLMProvider {
 					completion: usage.output_tokens,
 					total: usage.input_tokens + usage.output_tokens,
 				},
-				finishReason: data.stop_reason === 'end_turn' ? 'stop' : 
-				             data.stop_reason === 'max_tokens' ? 'length' : undefined,
+				finishReason: this.mapStopReason(data.stop_reason),
+				...(toolCalls.length > 0 && { toolCalls }),
 			};
 		} catch (error: unknown) {
-			if (error instanceof Error) {
-				// Check for specific error patterns
-				if (error.message.includes('401') || error.message.includes('authentication')) {
-					throw new Error('Invalid API key. Please check your Anthropic API key.');
-				} else if (error.message.includes('429')) {
-					throw new Error('Rate limit exceeded. Please try again later.');
-				} else if (error.message.includes('insufficient_quota') || error.message.includes('402')) {
-					throw new Error('Insufficient credits. Please add credits to your Anthropic account.');
-				} else if (error.message.includes('529') || error.message.includes('overloaded')) {
-					throw new Error('Anthropic is temporarily overloaded. Please try again.');
+			throw this.toProviderError(error, requestBody.model);
+		}
+	}
+
+	/**
+	 * Stream completion via Anthropic's server-sent events
+	 * Text arrives in content_block_delta events; stop_reason and output usage
+	 * arrive in message_delta, input usage in message_start. Tool calls start
+	 * with content_block_start and stream their input as partial JSON.
+	 */
+	async *stream(options: StreamOptions): AsyncGenerator<string, void, unknown> {
+		const baseUrl = this.config.baseUrl ?? 'https://api.anthropic.com/v1';
+		const apiKey = this.config.apiKey;
+
+		if (!apiKey) {
+			throw new ProviderNotConfiguredError('Anthropic API key is required', { provider: this.id });
+		}
+
+		const requestBody: AnthropicRequest = {
+			...this.buildRequestBody(options),
+			stream: true,
+		};
+
+		let text = '';
+		let model = requestBody.model;
+		let stopReason: AnthropicStopReason = null;
+		let inputTokens = 0;
+		let outputTokens = 0;
+		const toolBlocks = new Map<number, { id: string; name: string; json: string }>();
+		const startTime = Date.now();
+
+		try {
+			const response = await streamRequest({
+				url: `${baseUrl}/messages`,
+				method: 'POST',
+				headers: {
+					...this.getHeaders(apiKey),
+					// fetch runs in the renderer, so Anthropic treats it as a browser request
+					'anthropic-dangerous-direct-browser-access': 'true',
+				},
+				body: JSON.stringify(requestBody),
+			}, this.getRequestPolicy(options.abortSignal));
+
+			// Response body is guaranteed by streamRequest
+			const body = response.body as ReadableStream<Uint8Array>;
+
+			const prefill = this.getJsonPrefill(options);
+			if (prefill) {
+				text += prefill;
+				options.onChunk?.(prefill);
+				yield prefill;
+			}
+
+			let finished = false;
+			for await (const sse of parseServerSentEvents(readLines(body))) {
+				const event = JSON.parse(sse.data) as AnthropicStreamEvent;
+
+				switch (event.type) {
+					case 'message_start':
+						model = event.message.model;
+						inputTokens = event.message.usage.input_tokens;
+						outputTokens = event.message.usage.output_tokens;
+						break;
+					case 'content_block_start':
+						if (event.content_block.type === 'tool_use') {
+							toolBlocks.set(event.index, {
+								id: event.content_block.id ?? '',
+								name: event.content_block.name ?? '',
+								json: '',
+							});
+						}
+						break;
+					case 'content_block_delta':
+						if (event.delta.type === 'text_delta' && event.delta.text) {
+							text += event.delta.text;
+							options.onChunk?.(event.delta.text);
+							yield event.delta.text;
+						} else if (event.delta.type === 'input_json_delta') {
+							const block = toolBlocks.get(event.index);
+							if (block) {
+								block.json += event.delta.partial_json ?? '';
+							}
+						}
+						break;
+					case 'message_delta':
+						stopReason = event.delta.stop_reason;
+						outputTokens = event.usage.output_tokens;
+						break;
+					case 'message_stop':
+						finished = true;
+						break;
+					case 'error':
+						throw this.toStreamEventError(event.error, model);
+					default:
+						// ping, content_block_stop - nothing to do
+						break;
+				}
+
+				if (finished) {
+					break;
 				}
-				throw new Error(`Anthropic request failed: ${error.message}`);
 			}
-			throw new Error('Anthropic request failed: Unknown error');
+		} catch (error: unknown) {
+			const requestError = this.toProviderError(error, model);
+			options.onError?.(requestError);
+			throw requestError;
+		}
+
+		const durationMs = Date.now() - startTime;
+		console.debug(
+			`Anthropic stream: ${outputTokens} tokens in ${durationMs}ms ` +
+			`(${(outputTokens / (durationMs / 1000)).toFixed(1)} tok/s)`
+		);
+
+		const result: CompletionResult = {
+			text,
+			model,
+			provider: this.id,
+			tokens: {
+				prompt: inputTokens,
+				completion: outputTokens,
+				total: inputTokens + outputTokens,
+			},
+			finishReason: this.mapStopReason(stopReason),
+		};
+		if (toolBlocks.size > 0) {
+			result.toolCalls = Array.from(toolBlocks.values(), block => ({
+				id: block.id,
+				name: block.name,
+				arguments: parseToolArguments(block.name, block.json, { provider: this.id, model }),
+			}));
+		}
+
+		options.onComplete?.(result);
+	}
+
+	/**
+	 * Build the Messages API request body shared by complete() and stream()
+	 */
+	private buildRequestBody(options: CompletionOptions): AnthropicRequest {
+		// Anthropic takes system instructions as a separate field, not as a message
+		const systemParts: string[] = [];
+		const messages: AnthropicMessage[] = [];
+		for (const message of this.buildMessages(this.withJsonInstruction(options))) {
+			if (message.role === 'system') {
+				systemParts.push(message.content);
+			} else {
+				messages.push(this.toApiMessage(message));
+			}
+		}
+
+		// No native JSON mode: the schema goes into the system prompt and the answer is prefilled
+		const prefill = this.getJsonPrefill(options);
+		if (prefill) {
+			messages.push({ role: 'assistant', content: prefill });
+		}
+
+		const requestBody: AnthropicRequest = {
+			model: options.model ?? this.config.defaultModel ?? 'claude-sonnet-4-5',
+			messages,
+			max_tokens: options.maxTokens ?? 4096,
+		};
+
+		// Add system prompt if provided
+		if (systemParts.length > 0) {
+			requestBody.system = systemParts.join('\n\n');
+		}
+
+		// Add optional parameters
+		if (options.temperature !== undefined) {
+			requestBody.temperature = options.temperature;
+		}
+		if (options.topP !== undefined) {
+			requestBody.top_p = options.topP;
+		}
+		if (options.stop) {
+			requestBody.stop_sequences = options.stop;
+		}
+		if (options.tools?.length) {
+			requestBody.tools = options.tools.map(tool => ({
+				name: tool.name,
+				...(tool.description && { description: tool.description }),
+				input_schema: getToolParameters(tool),
+			}));
+			if (options.toolChoice) {
+				requestBody.tool_choice = this.toToolChoice(options.toolChoice);
+			}
 		}
+
+		return requestBody;
 	}
 
 	/**
-	 * Stream completion (simulated)
-	 * NOTE: Obsidian's requestUrl doesn't support streaming responses
-	 * Falls back to non-streaming complete() and simulates streaming by yielding words
+	 * Convert a user, assistant or tool message to the Messages API format
+	 * Tool results are sent as user turns; Anthropic merges consecutive user turns.
 	 */
-	async *stream(options: StreamOptions): AsyncGenerator<string, void, unknown> {
-		// Fall back to non-streaming and simulate streaming
-		// This is a limitation of Obsidian's requestUrl API
-		const result = await this.complete(options);
-		
-		// Simulate streaming by yielding word by word
-		const words = result.text.split(/\s+/);
-		for (const word of words) {
-			yield word + ' ';
+	private toApiMessage(message: ChatMessage): AnthropicMessage {
+		if (message.role === 'tool') {
+			return {
+				role: 'user',
+				content: [{ type: 'tool_result', tool_use_id: message.toolCallId ?? '', content: message.content }],
+			};
+		}
+
+		const role = message.role === 'assistant' ? 'assistant' : 'user';
+
+		if (message.toolCalls?.length) {
+			return {
+				role,
+				content: [
+					...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+					...message.toolCalls.map((call): AnthropicContentBlock => ({
+						type: 'tool_use',
+						id: call.id,
+						name: call.name,
+						input: call.arguments,
+					})),
+				],
+			};
+		}
+
+		if (message.images?.length) {
+			return {
+				role,
+				// Images go before the text, as recommended by Anthropic
+				content: [
+					...message.images.map((image): AnthropicContentBlock => {
+						const { mimeType, data } = encodeImage(image);
+						return { type: 'image', source: { type: 'base64', media_type: mimeType, data } };
+					}),
+					{ type: 'text', text: message.content },
+				],
+			};
+		}
+
+		return { role, content: message.content };
+	}
+
+	/**
+	 * Opening character of a JSON answer, sent as assistant prefill
+	 * Not used with tools, since a prefilled answer can't call them.
+	 */
+	private getJsonPrefill(options: CompletionOptions): string | null {
+		if (!options.responseFormat || options.tools?.length) {
+			return null;
+		}
+		const type = options.responseFormat.schema?.type;
+		if (type === 'array') {
+			return '[';
 		}
-		
-		// Call onComplete callback if provided
-		if (options.onComplete) {
-			options.onComplete(result);
+		return type === undefined || type === 'object' ? '{' : null;
+	}
+
+	/**
+	 * Map a tool choice to Anthropic's tool_choice
+	 */
+	private toToolChoice(choice: ToolChoice): AnthropicToolChoice {
+		switch (choice) {
+			case 'auto':
+				return { type: 'auto' };
+			case 'none':
+				return { type: 'none' };
+			case 'required':
+				return { type: 'any' };
+			default:
+				return { type: 'tool', name: choice.name };
+		}
+	}
+
+	/**
+	 * Request headers for the Anthropic API
+	 */
+	private getHeaders(apiKey: string): Record<string, string> {
+		return {
+			'x-api-key': apiKey,
+			'anthropic-version': '2023-06-01',
+			'Content-Type': 'application/json',
+		};
+	}
+
+	/**
+	 * Map an Anthropic stop_reason to CompletionResult.finishReason
+	 */
+	private mapStopReason(reason: AnthropicStopReason): CompletionResult['finishReason'] {
+		if (reason === 'end_turn' || reason === 'stop_sequence') {
+			return 'stop';
+		}
+		if (reason === 'max_tokens') {
+			return 'length';
+		}
+		if (reason === 'tool_use') {
+			return 'tool_calls';
+		}
+		return undefined;
+	}
+
+	/**
+	 * Convert an error event received mid-stream into a typed error
+	 * These arrive after a 200 response, so the HTTP status can't be used.
+	 */
+	private toStreamEventError(error: AnthropicErrorResponse['error'], model: string): LLMConnectorError {
+		const details = { provider: this.id, model };
+		switch (error.type) {
+			case 'authentication_error':
+				return new AuthenticationError(`Invalid API key. Please check your ${this.name} API key.`, details);
+			case 'rate_limit_error':
+				return new RateLimitError(`Rate limit exceeded for ${this.name}. Please try again later.`, details);
+			case 'overloaded_error':
+			case 'api_error':
+				return new ProviderError(`${this.name} stream failed: ${error.message}`, { ...details, retryable: true });
+			default:
+				return new ProviderError(`${this.name} stream failed: ${error.type}: ${error.message}`, details);
 		}
 	}
 
@@ -302,7 +623,10 @@ export class AnthropicProvider extends LLMProvider {
 	 * NOTE: Anthropic doesn't offer embedding models as of now
 	 * This method throws an error
 	 */
-	embeddings(_text: string, _options?: { model?: string }): Promise<number[]> {
-		return Promise.reject(new Error('Anthropic does not currently provide embedding models. Please use OpenAI or OpenRouter for embeddings.'));
+	embed(_input: string[], _options?: ProviderEmbeddingOptions): Promise<ProviderEmbeddingResult> {
+		return Promise.reject(new InvalidRequestError(
+			'Anthropic does not currently provide embedding models. Please use OpenAI or OpenRouter for embeddings.',
+			{ provider: this.id }
+		));
 	}
 }
@@ -0,0 +1,113 @@
+import { OpenAIProvider } from './OpenAIProvider';
+import { ProviderNotConfiguredError } from '../errors';
+import type { Model } from '../types';
+
+/**
+ * API version used when the config doesn't set one (latest GA data-plane version)
+ */
+const DEFAULT_API_VERSION = '2024-10-21';
+
+/**
+ * Azure OpenAI provider implementation
+ * Requests go to deployments of the user's Azure resource instead of model names:
+ * {endpoint}/openai/deployments/{deployment}/chat/completions?api-version=...
+ * The user maps each deployment to the model it serves (config.deployments), and
+ * every deployment is offered as a model whose ID is the deployment name.
+ */
+export class AzureOpenAIProvider extends OpenAIProvider {
+	get id(): string {
+		return 'azure-openai';
+	}
+
+	get name(): string {
+		return 'Azure OpenAI';
+	}
+
+	protected validateConfig(): boolean {
+		return !!this.config.apiKey && !!this.config.baseUrl;
+	}
+
+	/**
+	 * Check the endpoint and key, then list the configured deployments
+	 * Azure has no data-plane call for deployments, so they come from the settings.
+	 */
+	async listModels(): Promise<Model[]> {
+		const headers = this.getHeaders();
+
+		try {
+			await this.request({
+				url: `${this.apiBaseUrl}/openai/models?api-version=${encodeURIComponent(this.apiVersion)}`,
+				method: 'GET',
+				headers,
+			});
+		} catch (error: unknown) {
+			throw this.toProviderError(error);
+		}
+
+		return Object.entries(this.config.deployments ?? {}).map(([deployment, modelId]) => ({
+			// Tags, capabilities and pricing follow the deployed OpenAI model
+			...this.convertToModel({ id: modelId, object: 'model', created: 0, owned_by: 'azure' }),
+			id: deployment,
+			name: deployment === modelId ? deployment : `${deployment} (${modelId})`,
+		}));
+	}
+
+	/**
+	 * Resource endpoint, e.g. https://my-resource.openai.azure.com
+	 */
+	protected get apiBaseUrl(): string {
+		const endpoint = this.config.baseUrl;
+		if (!endpoint) {
+			throw new ProviderNotConfiguredError('Azure OpenAI endpoint is required', { provider: this.id });
+		}
+		return endpoint.replace(/\/+$/, '');
+	}
+
+	/**
+	 * First deployment of a chat model, used when a request names no model
+	 */
+	protected get defaultChatModel(): string {
+		return this.findDeployment(modelId => !modelId.includes('embedding'));
+	}
+
+	protected get defaultEmbeddingModel(): string {
+		return this.findDeployment(modelId => modelId.includes('embedding'));
+	}
+
+	/**
+	 * The model of a request is the deployment it goes to
+	 */
+	protected getEndpointUrl(path: 'chat/completions' | 'embeddings', model: string): string {
+		if (!model) {
+			throw new ProviderNotConfiguredError(
+				'No Azure OpenAI deployment configured. Add your deployments in LLM Connector settings.',
+				{ provider: this.id }
+			);
+		}
+		return `${this.apiBaseUrl}/openai/deployments/${encodeURIComponent(model)}/${path}` +
+			`?api-version=${encodeURIComponent(this.apiVersion)}`;
+	}
+
+	/**
+	 * Request headers for Azure OpenAI (api-key instead of a bearer token)
+	 */
+	protected getHeaders(): Record<string, string> {
+		const apiKey = this.config.apiKey;
+		if (!apiKey) {
+			throw new ProviderNotConfiguredError('Azure OpenAI API key is required', { provider: this.id });
+		}
+		return {
+			'api-key': apiKey,
+			'Content-Type': 'application/json',
+		};
+	}
+
+	private get apiVersion(): string {
+		return this.config.options?.apiVersion?.trim() || DEFAULT_API_VERSION;
+	}
+
+	private findDeployment(matches: (modelId: string) => boolean): string {
+		const entry = Object.entries(this.config.deployments ?? {}).find(([, modelId]) => matches(modelId.toLowerCase()));
+		return entry?.[0] ?? '';
+	}
+}
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { requestUrl } from 'obsidian';
+import type { RequestUrlResponse, RequestUrlResponsePromise } from 'obsidian';
+import { GeminiProvider } from './GeminiProvider';
+import type { CompletionResult } from '../types';
+
+vi.mock('obsidian', () => ({
+	requestUrl: vi.fn(),
+	arrayBufferToBase64: vi.fn(),
+	TFile: class {},
+}));
+
+const fetchMock = vi.fn<unknown[], Promise<Response>>();
+
+function createProvider(): GeminiProvider {
+	return new GeminiProvider({ id: 'gemini', enabled: true, apiKey: 'test-key', maxRetries: 0 });
+}
+
+/**
+ * Answer the next generateContent request with the given body
+ */
+function mockResponse(json: Record<string, unknown>): void {
+	vi.mocked(requestUrl).mockReturnValue(Promise.resolve({
+		status: 200,
+		headers: {},
+		json,
+		text: JSON.stringify(json),
+		arrayBuffer: new ArrayBuffer(0),
+	} as RequestUrlResponse) as RequestUrlResponsePromise);
+}
+
+/**
+ * Response whose body carries the given events as server-sent events
+ */
+function createStreamResponse(events: Array<Record<string, unknown>>): Response {
+	const body = events.map(event => `data: ${JSON.stringify(event)}\r\n\r\n`).join('');
+	return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+async function runStream(events: Array<Record<string, unknown>>): Promise<{ yielded: string[]; result?: CompletionResult }> {
+	fetchMock.mockResolvedValue(createStreamResponse(events));
+
+	const yielded: string[] = [];
+	let result: CompletionResult | undefined;
+	const options = { prompt: 'Hi', onComplete: (done: CompletionResult) => { result = done; } };
+	for await (const chunk of createProvider().stream(options)) {
+		yielded.push(chunk);
+	}
+	return { yielded, result };
+}
+
+function candidate(text: string, finishReason?: string): Record<string, unknown> {
+	return { content: { role: 'model', parts: [{ text }] }, ...(finishReason && { finishReason }) };
+}
+
+describe('GeminiProvider finish reasons', () => {
+	beforeEach(() => {
+		vi.stubGlobal('window', globalThis);
+		vi.stubGlobal('fetch', fetchMock);
+		vi.spyOn(console, 'debug').mockImplementation(() => undefined);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+		vi.mocked(requestUrl).mockReset();
+		fetchMock.mockReset();
+	});
+
+	it('reports a blocked prompt as content_filter', async () => {
+		mockResponse({ promptFeedback: { blockReason: 'SAFETY' }, usageMetadata: { promptTokenCount: 8 } });
+
+		const result = await createProvider().complete({ prompt: 'Hi' });
+
+		expect(result.text).toBe('');
+		expect(result.finishReason).toBe('content_filter');
+	});
+
+	it.each(['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'])(
+		'reports the %s finish reason as content_filter',
+		async (reason) => {
+			mockResponse({ candidates: [candidate('', reason)] });
+
+			const result = await createProvider().complete({ prompt: 'Hi' });
+
+			expect(result.finishReason).toBe('content_filter');
+		}
+	);
+
+	it('maps STOP to stop and MAX_TOKENS to length', async () => {
+		mockResponse({ candidates: [candidate('Done', 'STOP')] });
+		expect((await createProvider().complete({ prompt: 'Hi' })).finishReason).toBe('stop');
+
+		mockResponse({ candidates: [candidate('Cut', 'MAX_TOKENS')] });
+		expect((await createProvider().complete({ prompt: 'Hi' })).finishReason).toBe('length');
+	});
+
+	it('uses the finish reason and usage of the last stream event', async () => {
+		const { yielded, result } = await runStream([
+			{ candidates: [candidate('Hel')], usageMetadata: { promptTokenCount: 8, candidatesTokenCount: 1 } },
+			{ candidates: [candidate('lo')], usageMetadata: { promptTokenCount: 8, candidatesTokenCount: 2 } },
+			{
+				candidates: [candidate('!', 'MAX_TOKENS')],
+				usageMetadata: { promptTokenCount: 8, candidatesTokenCount: 3, totalTokenCount: 11 },
+				modelVersion: 'gemini-2.5-flash-001',
+			},
+		]);
+
+		expect(yielded).toEqual(['Hel', 'lo', '!']);
+		expect(result?.text).toBe('Hello!');
+		expect(result?.model).toBe('gemini-2.5-flash-001');
+		expect(result?.finishReason).toBe('length');
+		expect(result?.tokens).toEqual({ prompt: 8, completion: 3, total: 11 });
+	});
+
+	it('reports a stream blocked after the first chunks as content_filter', async () => {
+		const { yielded, result } = await runStream([
+			{ candidates: [candidate('Here is')] },
+			{ candidates: [{ finishReason: 'SAFETY' }], usageMetadata: { promptTokenCount: 8, candidatesTokenCount: 2 } },
+		]);
+
+		expect(yielded).toEqual(['Here is']);
+		expect(result?.finishReason).toBe('content_filter');
+	});
+
+	it('reports a blocked prompt in a stream as content_filter', async () => {
+		const { yielded, result } = await runStream([{ promptFeedback: { blockReason: 'PROHIBITED_CONTENT' } }]);
+
+		expect(yielded).toEqual([]);
+		expect(result?.finishReason).toBe('content_filter');
+	});
+});
@@ -0,0 +1,703 @@
+import { LLMProvider } from './LLMProvider';
+import {
+	AuthenticationError,
+	ContextLengthExceededError,
+	ProviderError,
+	ProviderNotConfiguredError,
+	RateLimitError,
+} from '../errors';
+import type { LLMConnectorError } from '../errors';
+import { HttpError } from '../utils/request';
+import { encodeImage } from '../utils/images';
+import { getToolParameters } from '../utils/tools';
+import { streamRequest, readLines, parseServerSentEvents } from '../utils/streaming';
+import type {
+	ChatMessage,
+	CompletionOptions,
+	CompletionResult,
+	StreamOptions,
+	Model,
+	ModelTag,
+	ConnectionResult,
+	ProviderEmbeddingResult,
+	ProviderEmbeddingOptions,
+	JsonSchema,
+	ToolCall,
+	ToolChoice,
+} from '../types';
+
+/**
+ * Gemini API interfaces
+ * Based on https://ai.google.dev/api/generate-content
+ */
+interface GeminiContent {
+	role: 'user' | 'model';
+	parts: GeminiPart[];
+}
+
+type GeminiPart =
+	| { text: string; thought?: boolean }
+	| { inlineData: { mimeType: string; data: string } }
+	| { functionCall: GeminiFunctionCall }
+	| { functionResponse: { name: string; response: Record<string, unknown> } };
+
+interface GeminiFunctionCall {
+	id?: string;
+	name: string;
+	args?: Record<string, unknown>;
+}
+
+interface GeminiRequest {
+	contents: GeminiContent[];
+	systemInstruction?: { parts: Array<{ text: string }> };
+	generationConfig: {
+		temperature?: number;
+		topP?: number;
+		maxOutputTokens?: number;
+		stopSequences?: string[];
+		presencePenalty?: number;
+		frequencyPenalty?: number;
+		responseMimeType?: string;
+		responseJsonSchema?: JsonSchema;
+	};
+	tools?: Array<{
+		functionDeclarations: Array<{ name: string; description?: string; parametersJsonSchema: JsonSchema }>;
+	}>;
+	toolConfig?: {
+		functionCallingConfig: {
+			mode: 'AUTO' | 'ANY' | 'NONE';
+			allowedFunctionNames?: string[];
+		};
+	};
+}
+
+/**
+ * Why a candidate stopped; the safety-related reasons mean the answer was blocked
+ */
+type GeminiFinishReason =
+	| 'STOP'
+	| 'MAX_TOKENS'
+	| 'SAFETY'
+	| 'RECITATION'
+	| 'LANGUAGE'
+	| 'BLOCKLIST'
+	| 'PROHIBITED_CONTENT'
+	| 'SPII'
+	| 'IMAGE_SAFETY'
+	| 'MALFORMED_FUNCTION_CALL'
+	| 'OTHER';
+
+/**
+ * Response of generateContent, and each event of streamGenerateContent
+ */
+interface GeminiResponse {
+	candidates?: Array<{
+		content?: { role: string; parts?: GeminiPart[] };
+		finishReason?: GeminiFinishReason;
+	}>;
+	promptFeedback?: {
+		blockReason?: string;  // Set when the prompt itself was blocked (no candidates)
+	};
+	usageMetadata?: {
+		promptTokenCount?: number;
+		candidatesTokenCount?: number;
+		thoughtsTokenCount?: number;
+		totalTokenCount?: number;
+	};
+	modelVersion?: string;
+	error?: {
+		code: number;
+		message: string;
+		status: string;
+	};
+}
+
+interface GeminiModel {
+	name: string;  // "models/gemini-2.5-flash"
+	displayName?: string;
+	inputTokenLimit?: number;
+	outputTokenLimit?: number;
+	supportedGenerationMethods?: string[];
+}
+
+interface GeminiModelList {
+	models?: GeminiModel[];
+	nextPageToken?: string;
+}
+
+interface GeminiBatchEmbedResponse {
+	embeddings: Array<{ values: number[] }>;
+}
+
+/**
+ * Finish reasons reported as 'content_filter'
+ */
+const BLOCKED_FINISH_REASONS: GeminiFinishReason[] = [
+	'SAFETY',
+	'RECITATION',
+	'BLOCKLIST',
+	'PROHIBITED_CONTENT',
+	'SPII',
+	'IMAGE_SAFETY',
+];
+
+/**
+ * Approximate pricing in USD per million tokens (prompts up to 200k tokens, may change)
+ * Checked in order, so more specific IDs come first.
+ */
+const GEMINI_PRICING: Array<{ match: string; prompt: number; completion: number }> = [
+	{ match: 'gemini-2.5-pro', prompt: 1.25, completion: 10.0 },
+	{ match: 'gemini-2.5-flash-lite', prompt: 0.10, completion: 0.40 },
+	{ match: 'gemini-2.5-flash', prompt: 0.30, completion: 2.50 },
+	{ match: 'gemini-2.0-flash-lite', prompt: 0.075, completion: 0.30 },
+	{ match: 'gemini-2.0-flash', prompt: 0.10, completion: 0.40 },
+	{ match: 'gemini-1.5-pro', prompt: 1.25, completion: 5.0 },
+	{ match: 'gemini-1.5-flash-8b', prompt: 0.0375, completion: 0.15 },
+	{ match: 'gemini-1.5-flash', prompt: 0.075, completion: 0.30 },
+];
+
+/**
+ * Google Gemini provider implementation
+ * Supports Gemini chat and embedding models through the Gemini API
+ * Requires API key from https://aistudio.google.com/
+ */
+export class GeminiProvider extends LLMProvider {
+	get id(): string {
+		return 'gemini';
+	}
+
+	get name(): string {
+		return 'Google Gemini';
+	}
+
+	protected validateConfig(): boolean {
+		// Gemini requires an API key
+		return !!this.config.apiKey;
+	}
+
+	/**
+	 * Test connection to Gemini and list available models
+	 */
+	async connect(): Promise<ConnectionResult> {
+		try {
+			const models = await this.listModels();
+			return {
+				success: true,
+				message: `Connected to Google Gemini. Found ${models.length} models.`,
+				models,
+			};
+		} catch (error: unknown) {
+			if (error instanceof Error) {
+				return {
+					success: false,
+					message: `Failed to connect to Google Gemini: ${error.message}`,
+				};
+			}
+			return {
+				success: false,
+				message: 'Failed to connect to Google Gemini: Unknown error',
+			};
+		}
+	}
+
+	/**
+	 * List chat and embedding models from /models (paginated)
+	 */
+	async listModels(): Promise<Model[]> {
+		const baseUrl = this.getBaseUrl();
+		const headers = this.getHeaders();
+
+		try {
+			const models: GeminiModel[] = [];
+			let pageToken: string | undefined;
+			do {
+				const query = `pageSize=1000${pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ''}`;
+				const response = await this.request({
+					url: `${baseUrl}/models?${query}`,
+					method: 'GET',
+					headers,
+				});
+				const data = response.json as GeminiModelList;
+				models.push(...(data.models ?? []));
+				pageToken = data.nextPageToken;
+			} while (pageToken);
+
+			return models
+				.filter(model => this.isListedModel(model))
+				.map(model => this.convertToModel(model));
+		} catch (error: unknown) {
+			if (error instanceof Error) {
+				throw new Error(`Failed to list models: ${error.message}`);
+			}
+			throw new Error('Failed to list models: Unknown error');
+		}
+	}
+
+	/**
+	 * Text and embedding models only; image, audio and speech models also support generateContent
+	 */
+	private isListedModel(model: GeminiModel): boolean {
+		const methods = model.supportedGenerationMethods ?? [];
+		const generates = methods.includes('generateContent') && !/image|audio|tts|live/.test(model.name);
+		return generates || methods.includes('embedContent');
+	}
+
+	/**
+	 * Convert a Gemini model to our Model interface
+	 */
+	private convertToModel(geminiModel: GeminiModel): Model {
+		const modelId = geminiModel.name.replace(/^models\//, '');
+		const lowerId = modelId.toLowerCase();
+		const isEmbedding = !(geminiModel.supportedGenerationMethods ?? []).includes('generateContent');
+
+		const tags: ModelTag[] = [];
+		if (isEmbedding) {
+			tags.push('embedding');
+		} else {
+			tags.push('chat');
+			if (lowerId.includes('pro')) {
+				tags.push('smart');
+			}
+			if (lowerId.includes('flash')) {
+				tags.push('fast');
+			}
+			// Gemini models take images; Gemma models are text-only
+			if (lowerId.startsWith('gemini')) {
+				tags.push('multimodal');
+			}
+		}
+
+		const pricing = GEMINI_PRICING.find(entry => lowerId.startsWith(entry.match));
+
+		return {
+			id: modelId,
+			name: geminiModel.displayName ?? modelId,
+			provider: this.id,
+			contextWindow: geminiModel.inputTokenLimit,
+			maxTokens: geminiModel.outputTokenLimit,
+			tags,
+			// Function calling is available on Gemini, not on the Gemma models served by the API
+			capabilities: isEmbedding
+				? ['embeddings']
+				: lowerId.startsWith('gemini') ? ['text', 'tools'] : ['text'],
+			...(pricing && this.toPricing(pricing.prompt, pricing.completion)),
+		};
+	}
+
+	/**
+	 * Generate completion via generateContent
+	 */
+	async complete(options: CompletionOptions): Promise<CompletionResult> {
+		const baseUrl = this.getBaseUrl();
+		const headers = this.getHeaders();
+		const model = this.getModel(options);
+		const requestBody = this.buildRequestBody(options);
+
+		try {
+			const startTime = Date.now();
+
+			const response = await this.request({
+				url: `${baseUrl}/models/${model}:generateContent`,
+				method: 'POST',
+				headers,
+				body: JSON.stringify(requestBody),
+			}, options.abortSignal);
+
+			const data = response.json as GeminiResponse;
+			const durationMs = Date.now() - startTime;
+
+			const candidate = data.candidates?.[0];
+			const { text, calls } = this.readParts(candidate?.content?.parts ?? []);
+			const toolCalls = this.toToolCalls(calls);
+			const tokens = this.toTokens(data.usageMetadata);
+
+			const tokensPerSecond = tokens.completion / (durationMs / 1000);
+			console.debug(
+				`Gemini completion: ${tokens.completion} tokens in ${durationMs}ms (${tokensPerSecond.toFixed(1)} tok/s)`
+			);
+
+			return {
+				text,
+				model: data.modelVersion ?? model,
+				provider: this.id,
+				tokens,
+				finishReason: this.mapFinishReason(data, candidate?.finishReason, toolCalls.length > 0),
+				...(toolCalls.length > 0 && { toolCalls }),
+			};
+		} catch (error: unknown) {
+			throw this.toProviderError(error, model);
+		}
+	}
+
+	/**
+	 * Stream completion via streamGenerateContent server-sent events
+	 * Every event is a partial response; the last one carries finishReason and usage.
+	 */
+	async *stream(options: StreamOptions): AsyncGenerator<string, void, unknown> {
+		const baseUrl = this.getBaseUrl();
+		const headers = this.getHeaders();
+		let model = this.getModel(options);
+		const requestBody = this.buildRequestBody(options);
+
+		let text = '';
+		const calls: GeminiFunctionCall[] = [];
+		let last: GeminiResponse = {};
+		let finishReason: GeminiFinishReason | undefined;
+		const startTime = Date.now();
+
+		try {
+			const response = await streamRequest({
+				url: `${baseUrl}/models/${model}:streamGenerateContent?alt=sse`,
+				method: 'POST',
+				headers,
+				body: JSON.stringify(requestBody),
+			}, this.getRequestPolicy(options.abortSignal));
+
+			// Response body is guaranteed by streamRequest
+			const body = response.body as ReadableStream<Uint8Array>;
+
+			for await (const sse of parseServerSentEvents(readLines(body))) {
+				const event = JSON.parse(sse.data) as GeminiResponse;
+				if (event.error) {
+					throw this.toStreamEventError(event.error, model);
+				}
+
+				last = event;
+				model = event.modelVersion ?? model;
+
+				const candidate = event.candidates?.[0];
+				const parts = this.readParts(candidate?.content?.parts ?? []);
+				calls.push(...parts.calls);
+				if (parts.text) {
+					text += parts.text;
+					options.onChunk?.(parts.text);
+					yield parts.text;
+				}
+				finishReason = candidate?.finishReason ?? finishReason;
+			}
+		} catch (error: unknown) {
+			const requestError = this.toProviderError(error, model);
+			options.onError?.(requestError);
+			throw requestError;
+		}
+
+		const tokens = this.toTokens(last.usageMetadata);
+		const durationMs = Date.now() - startTime;
+		console.debug(
+			`Gemini stream: ${tokens.completion} tokens in ${durationMs}ms ` +
+			`(${(tokens.completion / (durationMs / 1000)).toFixed(1)} tok/s)`
+		);
+
+		const toolCalls = this.toToolCalls(calls);
+		const result: CompletionResult = {
+			text,
+			model,
+			provider: this.id,
+			tokens,
+			finishReason: this.mapFinishReason(last, finishReason, toolCalls.length > 0),
+		};
+		if (toolCalls.length > 0) {
+			result.toolCalls = toolCalls;
+		}
+
+		options.onComplete?.(result);
+	}
+
+	/**
+	 * Gemini accepts up to 100 inputs per batchEmbedContents request
+	 */
+	get maxEmbeddingBatchSize(): number {
+		return 100;
+	}
+
+	/**
+	 * Generate embeddings via batchEmbedContents (one embedContent request per input)
+	 * Gemini doesn't report token usage for embeddings.
+	 */
+	async embed(input: string[], options: ProviderEmbeddingOptions = {}): Promise<ProviderEmbeddingResult> {
+		const baseUrl = this.getBaseUrl();
+		const headers = this.getHeaders();
+		const model = options.model ?? 'gemini-embedding-001';
+
+		try {
+			const response = await this.request({
+				url: `${baseUrl}/models/${model}:batchEmbedContents`,
+				method: 'POST',
+				headers,
+				body: JSON.stringify({
+					requests: input.map(text => ({
+						model: `models/${model}`,
+						content: { parts: [{ text }] },
+					})),
+				}),
+			}, options.abortSignal);
+
+			const data = response.json as GeminiBatchEmbedResponse;
+
+			if (!data.embeddings || data.embeddings.length !== input.length) {
+				throw new Error(`Expected ${input.length} embeddings, got ${data.embeddings?.length ?? 0}`);
+			}
+
+			const embeddings = data.embeddings.map(entry => entry.values);
+			return {
+				embeddings,
+				dimensions: embeddings[0]?.length ?? 0,
+				model,
+				provider: this.id,
+				tokens: {
+					prompt: 0,
+					total: 0,
+				},
+			};
+		} catch (error: unknown) {
+			throw this.toProviderError(error, model);
+		}
+	}
+
+	/**
+	 * Map Gemini's API-key and token-limit errors, which arrive as plain 400s
+	 */
+	protected toProviderError(error: unknown, model?: string): LLMConnectorError {
+		if (error instanceof HttpError && error.status === 400) {
+			const details = { provider: this.id, model, cause: error };
+			if (error.body.includes('API_KEY_INVALID')) {
+				return new AuthenticationError(`Invalid API key. Please check your ${this.name} API key.`, details);
+			}
+			if (/exceeds the maximum number of tokens/i.test(error.body)) {
+				return new ContextLengthExceededError(`${this.name}: input exceeds the model's token limit`, details);
+			}
+		}
+		return super.toProviderError(error, model);
+	}
+
+	/**
+	 * Build the generateContent request body shared by complete() and stream()
+	 */
+	private buildRequestBody(options: CompletionOptions): GeminiRequest {
+		// Gemini takes system instructions as a separate field, not as a message
+		// Schemas are enforced natively; plain JSON mode (and JSON with tools) needs the instruction
+		const nativeSchema = !!options.responseFormat?.schema && !options.tools?.length;
+		const systemParts: string[] = [];
+		const chatMessages: ChatMessage[] = [];
+		for (const message of this.buildMessages(nativeSchema ? options : this.withJsonInstruction(options))) {
+			if (message.role === 'system') {
+				systemParts.push(message.content);
+			} else {
+				chatMessages.push(message);
+			}
+		}
+
+		const requestBody: GeminiRequest = {
+			contents: this.toContents(chatMessages),
+			generationConfig: {
+				...(options.temperature !== undefined && { temperature: options.temperature }),
+				...(options.topP !== undefined && { topP: options.topP }),
+				...(options.maxTokens !== undefined && { maxOutputTokens: options.maxTokens }),
+				...(options.stop !== undefined && { stopSequences: options.stop }),
+				...(options.presencePenalty !== undefined && { presencePenalty: options.presencePenalty }),
+				...(options.frequencyPenalty !== undefined && { frequencyPenalty: options.frequencyPenalty }),
+			},
+		};
+
+		if (systemParts.length > 0) {
+			requestBody.systemInstruction = { parts: [{ text: systemParts.join('\n\n') }] };
+		}
+
+		if (options.tools?.length) {
+			requestBody.tools = [{
+				functionDeclarations: options.tools.map(tool => ({
+					name: tool.name,
+					...(tool.description && { description: tool.description }),
+					parametersJsonSchema: getToolParameters(tool),
+				})),
+			}];
+			if (options.toolChoice) {
+				requestBody.toolConfig = { functionCallingConfig: this.toFunctionCallingConfig(options.toolChoice) };
+			}
+		} else if (options.responseFormat) {
+			// JSON output can't be combined with function calling
+			requestBody.generationConfig.responseMimeType = 'application/json';
+			if (options.responseFormat.schema) {
+				requestBody.generationConfig.responseJsonSchema = options.responseFormat.schema;
+			}
+		}
+
+		return requestBody;
+	}
+
+	/**
+	 * Convert user, assistant and tool messages to Gemini contents
+	 * Tool results are matched to their call by name, and consecutive turns of
+	 * the same role are merged (parallel tool results go into one turn).
+	 */
+	private toContents(messages: ChatMessage[]): GeminiContent[] {
+		const toolNames = new Map<string, string>();
+		const contents: GeminiContent[] = [];
+
+		for (const message of messages) {
+			const role = message.role === 'assistant' ? 'model' : 'user';
+			const parts: GeminiPart[] = [];
+
+			if (message.role === 'tool') {
+				parts.push({
+					functionResponse: {
+						name: toolNames.get(message.toolCallId ?? '') ?? '',
+						response: { content: message.content },
+					},
+				});
+			} else {
+				// Images go before the text, as recommended by Google
+				for (const image of message.images ?? []) {
+					const { mimeType, data } = encodeImage(image);
+					parts.push({ inlineData: { mimeType, data } });
+				}
+				if (message.content) {
+					parts.push({ text: message.content });
+				}
+				for (const call of message.toolCalls ?? []) {
+					toolNames.set(call.id, call.name);
+					parts.push({ functionCall: { name: call.name, args: call.arguments } });
+				}
+			}
+
+			const previous = contents[contents.length - 1];
+			if (previous?.role === role) {
+				previous.parts.push(...parts);
+			} else {
+				contents.push({ role, parts });
+			}
+		}
+
+		return contents;
+	}
+
+	/**
+	 * Collect the answer text and function calls of a candidate, skipping thought summaries
+	 */
+	private readParts(parts: GeminiPart[]): { text: string; calls: GeminiFunctionCall[] } {
+		let text = '';
+		const calls: GeminiFunctionCall[] = [];
+		for (const part of parts) {
+			if ('text' in part && !part.thought) {
+				text += part.text;
+			} else if ('functionCall' in part) {
+				calls.push(part.functionCall);
+			}
+		}
+		return { text, calls };
+	}
+
+	/**
+	 * Convert Gemini function calls, generating ids where Gemini omits them
+	 */
+	private toToolCalls(calls: GeminiFunctionCall[]): ToolCall[] {
+		return calls.map((call, index) => ({
+			id: call.id ?? `call_${index}`,
+			name: call.name,
+			arguments: call.args ?? {},
+		}));
+	}
+
+	/**
+	 * Token usage; thinking tokens are billed as output, so they count as completion tokens
+	 */
+	private toTokens(usage: GeminiResponse['usageMetadata']): CompletionResult['tokens'] {
+		const prompt = usage?.promptTokenCount ?? 0;
+		const completion = (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0);
+		return {
+			prompt,
+			completion,
+			total: usage?.totalTokenCount ?? prompt + completion,
+		};
+	}
+
+	/**
+	 * Map a tool choice to Gemini's function calling config
+	 */
+	private toFunctionCallingConfig(choice: ToolChoice): NonNullable<GeminiRequest['toolConfig']>['functionCallingConfig'] {
+		switch (choice) {
+			case 'auto':
+				return { mode: 'AUTO' };
+			case 'none':
+				return { mode: 'NONE' };
+			case 'required':
+				return { mode: 'ANY' };
+			default:
+				return { mode: 'ANY', allowedFunctionNames: [choice.name] };
+		}
+	}
+
+	/**
+	 * Map Gemini's finish reason to CompletionResult.finishReason
+	 * Blocked prompts (no candidates) and blocked answers become 'content_filter'.
+	 */
+	private mapFinishReason(
+		response: GeminiResponse,
+		reason: GeminiFinishReason | undefined,
+		hasToolCalls: boolean
+	): CompletionResult['finishReason'] {
+		if (response.promptFeedback?.blockReason) {
+			console.debug(`Gemini blocked the prompt: ${response.promptFeedback.blockReason}`);
+			return 'content_filter';
+		}
+		if (reason && BLOCKED_FINISH_REASONS.includes(reason)) {
+			console.debug(`Gemini blocked the answer: ${reason}`);
+			return 'content_filter';
+		}
+		if (hasToolCalls) {
+			return 'tool_calls';
+		}
+		if (reason === 'STOP') {
+			return 'stop';
+		}
+		if (reason === 'MAX_TOKENS') {
+			return 'length';
+		}
+		return reason ? 'error' : undefined;
+	}
+
+	/**
+	 * Convert an error event received mid-stream into a typed error
+	 */
+	private toStreamEventError(error: NonNullable<GeminiResponse['error']>, model: string): LLMConnectorError {
+		const details = { provider: this.id, model };
+		switch (error.status) {
+			case 'UNAUTHENTICATED':
+			case 'PERMISSION_DENIED':
+				return new AuthenticationError(`Invalid API key. Please check your ${this.name} API key.`, details);
+			case 'RESOURCE_EXHAUSTED':
+				return new RateLimitError(`Rate limit exceeded for ${this.name}. Please try again later.`, details);
+			case 'UNAVAILABLE':
+			case 'INTERNAL':
+				return new ProviderError(`${this.name} stream failed: ${error.message}`, { ...details, retryable: true });
+			default:
+				return new ProviderError(`${this.name} stream failed: ${error.status}: ${error.message}`, details);
+		}
+	}
+
+	/**
+	 * Model for a request, without the "models/" prefix
+	 */
+	private getModel(options: CompletionOptions): string {
+		return (options.model ?? this.config.defaultModel ?? 'gemini-2.5-flash').replace(/^models\//, '');
+	}
+
+	private getBaseUrl(): string {
+		return this.config.baseUrl ?? 'https://generativelanguage.googleapis.com/v1beta';
+	}
+
+	/**
+	 * Request headers for the Gemini API
+	 * @throws ProviderNotConfiguredError if the API key is missing
+	 */
+	private getHeaders(): Record<string, string> {
+		const apiKey = this.config.apiKey;
+		if (!apiKey) {
+			throw new ProviderNotConfiguredError('Gemini API key is required', { provider: this.id });
+		}
+		return {
+			'x-goog-api-key': apiKey,
+			'Content-Type': 'application/json',
+		};
+	}
+}
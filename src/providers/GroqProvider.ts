@@ -0,0 +1,110 @@
+import { OpenAIProvider } from './OpenAIProvider';
+import type { OpenAIModel } from './OpenAIProvider';
+import { InvalidRequestError, ProviderNotConfiguredError } from '../errors';
+import type { Model, ModelTag, ProviderEmbeddingOptions, ProviderEmbeddingResult } from '../types';
+
+/**
+ * /models entry of the Groq API
+ */
+interface GroqModel extends OpenAIModel {
+	active?: boolean;
+	context_window?: number;
+	max_completion_tokens?: number;
+}
+
+/**
+ * Approximate pricing in USD per million tokens (may change)
+ */
+const GROQ_PRICING: Array<{ match: string; prompt: number; completion: number }> = [
+	{ match: 'llama-3.1-8b-instant', prompt: 0.05, completion: 0.08 },
+	{ match: 'llama-3.3-70b-versatile', prompt: 0.59, completion: 0.79 },
+	{ match: 'llama-4-scout', prompt: 0.11, completion: 0.34 },
+	{ match: 'llama-4-maverick', prompt: 0.20, completion: 0.60 },
+	{ match: 'gpt-oss-120b', prompt: 0.15, completion: 0.75 },
+	{ match: 'gpt-oss-20b', prompt: 0.10, completion: 0.50 },
+	{ match: 'qwen3-32b', prompt: 0.29, completion: 0.59 },
+	{ match: 'kimi-k2', prompt: 1.0, completion: 3.0 },
+	{ match: 'deepseek-r1-distill-llama-70b', prompt: 0.75, completion: 0.99 },
+	{ match: 'gemma2-9b-it', prompt: 0.20, completion: 0.20 },
+];
+
+/**
+ * Groq provider implementation
+ * Open-weight models on Groq's LPU hardware, through its OpenAI-compatible API.
+ * Requires API key from https://console.groq.com/
+ */
+export class GroqProvider extends OpenAIProvider {
+	get id(): string {
+		return 'groq';
+	}
+
+	get name(): string {
+		return 'Groq';
+	}
+
+	protected get apiBaseUrl(): string {
+		return this.config.baseUrl ?? 'https://api.groq.com/openai/v1';
+	}
+
+	protected get defaultChatModel(): string {
+		return 'llama-3.3-70b-versatile';
+	}
+
+	protected getHeaders(): Record<string, string> {
+		const apiKey = this.config.apiKey;
+		if (!apiKey) {
+			throw new ProviderNotConfiguredError('Groq API key is required', { provider: this.id });
+		}
+		return {
+			'Authorization': `Bearer ${apiKey}`,
+			'Content-Type': 'application/json',
+		};
+	}
+
+	/**
+	 * Active chat models; speech (Whisper, TTS) and guard models are left out
+	 */
+	protected isListedModel(model: GroqModel): boolean {
+		return model.active !== false && !/whisper|tts|guard/.test(model.id);
+	}
+
+	protected convertToModel(groqModel: GroqModel): Model {
+		const modelId = groqModel.id.toLowerCase();
+
+		// Everything on Groq is fast; the larger models are also smart
+		const tags: ModelTag[] = ['chat', 'fast'];
+		if (/70b|120b|maverick|kimi-k2|qwen3|compound/.test(modelId)) {
+			tags.push('smart');
+		}
+		if (/code|kimi-k2/.test(modelId)) {
+			tags.push('code');
+		}
+		if (modelId.includes('llama-4')) {
+			tags.push('multimodal');
+		}
+
+		const pricing = GROQ_PRICING.find(entry => modelId.includes(entry.match));
+
+		return {
+			id: groqModel.id,
+			name: groqModel.id,
+			provider: this.id,
+			contextWindow: groqModel.context_window,
+			maxTokens: groqModel.max_completion_tokens,
+			tags,
+			// Compound systems run their own built-in tools, not caller-defined ones
+			capabilities: modelId.includes('compound') ? ['text'] : ['text', 'tools'],
+			...(pricing && this.toPricing(pricing.prompt, pricing.completion)),
+		};
+	}
+
+	/**
+	 * Groq doesn't offer embedding models
+	 */
+	embed(_input: string[], _options?: ProviderEmbeddingOptions): Promise<ProviderEmbeddingResult> {
+		return Promise.reject(new InvalidRequestError(
+			'Groq does not provide embedding models. Please use another provider for embeddings.',
+			{ provider: this.id }
+		));
+	}
+}
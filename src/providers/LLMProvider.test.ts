@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { LLMProvider } from './LLMProvider';
+import { InvalidRequestError } from '../errors';
+import type { ChatMessage, CompletionOptions, CompletionResult, ConnectionResult, Model } from '../types';
+
+/**
+ * Minimal provider that exposes the message building of the base class
+ */
+class TestProvider extends LLMProvider {
+	get id(): string {
+		return 'test';
+	}
+
+	get name(): string {
+		return 'Test';
+	}
+
+	connect(): Promise<ConnectionResult> {
+		return Promise.resolve({ success: true });
+	}
+
+	listModels(): Promise<Model[]> {
+		return Promise.resolve([]);
+	}
+
+	complete(_options: CompletionOptions): Promise<CompletionResult> {
+		return Promise.reject(new Error('Not used in tests'));
+	}
+
+	messagesFor(options: CompletionOptions): ChatMessage[] {
+		return this.buildMessages(options);
+	}
+}
+
+const provider = new TestProvider({ id: 'test', enabled: true });
+const image = { data: 'aGk=', mimeType: 'image/png' };
+
+describe('LLMProvider.buildMessages', () => {
+	it('puts the system prompt first and the prompt with its images last', () => {
+		const messages = provider.messagesFor({
+			systemPrompt: 'Be brief',
+			messages: [{ role: 'user', content: 'Earlier' }, { role: 'assistant', content: 'Reply' }],
+			prompt: 'Describe this',
+			images: [image],
+		});
+
+		expect(messages).toEqual([
+			{ role: 'system', content: 'Be brief' },
+			{ role: 'user', content: 'Earlier' },
+			{ role: 'assistant', content: 'Reply' },
+			{ role: 'user', content: 'Describe this', images: [image] },
+		]);
+	});
+
+	it('attaches images to the last user message when there is no prompt', () => {
+		const earlier = { data: 'b2s=', mimeType: 'image/jpeg' };
+		const history: ChatMessage[] = [
+			{ role: 'user', content: 'First' },
+			{ role: 'assistant', content: 'Reply' },
+			{ role: 'user', content: 'Describe this', images: [earlier] },
+			{ role: 'tool', content: '42', toolCallId: 'call_1' },
+		];
+
+		const messages = provider.messagesFor({ messages: history, images: [image] });
+
+		expect(messages[2]).toEqual({ role: 'user', content: 'Describe this', images: [earlier, image] });
+		expect(messages[0]?.images).toBeUndefined();
+		// The caller's history is not modified
+		expect(history[2]?.images).toEqual([earlier]);
+	});
+
+	it('throws InvalidRequestError when images have no user turn', () => {
+		expect(() => provider.messagesFor({
+			systemPrompt: 'Be brief',
+			messages: [{ role: 'assistant', content: 'Hello' }],
+			images: [image],
+		})).toThrow(InvalidRequestError);
+	});
+});
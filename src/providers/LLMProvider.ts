@@ -1,12 +1,67 @@
+import type { RequestUrlParam, RequestUrlResponse } from 'obsidian';
+import { HttpError, RequestTimeoutError, sendRequest } from '../utils/request';
+import type { RequestPolicy } from '../utils/request';
+import { isAbortError } from '../utils/abort';
+import { getJsonInstruction } from '../utils/jsonSchema';
+import {
+	AbortError,
+	AuthenticationError,
+	ContextLengthExceededError,
+	InvalidRequestError,
+	LLMConnectorError,
+	ModelNotFoundError,
+	ProviderError,
+	ProviderUnreachableError,
+	QuotaExceededError,
+	RateLimitError,
+	TimeoutError,
+} from '../errors';
+import type { LLMErrorDetails } from '../errors';
 import type {
+	ChatMessage,
 	CompletionOptions,
 	CompletionResult,
+	ImageAttachment,
 	StreamOptions,
 	Model,
 	ConnectionResult,
+	ProviderEmbeddingResult,
 	ProviderConfig,
+	ProviderEmbeddingOptions,
 } from '../types';
 
+/**
+ * Body fragments that identify a context-length rejection (400/413)
+ */
+const CONTEXT_LENGTH_PATTERNS = [
+	'context_length_exceeded',
+	'context length',
+	'maximum context',
+	'prompt is too long',
+	'too many tokens',
+];
+
+/**
+ * Body fragments of quota rejections that don't use 402: OpenAI's error code
+ * (sent with 429) and Anthropic's message (sent with 400)
+ */
+const QUOTA_PATTERNS = [
+	'insufficient_quota',
+	'credit balance is too low',
+];
+
+/**
+ * Messages of network failures from requestUrl/fetch
+ */
+const NETWORK_ERROR_PATTERNS = [
+	'net::',
+	'failed to fetch',
+	'network',
+	'econnrefused',
+	'econnreset',
+	'enotfound',
+];
+
 /**
  * Abstract base class for LLM providers
  * All provider adapters (Ollama, OpenRouter, etc.) must extend this
@@ -55,17 +110,53 @@ export abstract class LLMProvider {
 	// Default implementation throws error - providers can override
 	// eslint-disable-next-line require-yield -- Base class throws error, concrete implementations will use yield
 	async *stream(_options: StreamOptions): AsyncGenerator<string, void, unknown> {
-		throw new Error(`Streaming not supported by ${this.name}`);
+		throw new InvalidRequestError(`Streaming not supported by ${this.name}`, { provider: this.id });
+	}
+
+	/**
+	 * Whether requests leave the user's machine or network for a cloud service
+	 * Plugins that aren't allowed to use cloud providers are limited to the others.
+	 */
+	get isCloud(): boolean {
+		return true;
+	}
+
+	/**
+	 * Maximum number of inputs per embedding request
+	 * The router splits larger inputs into batches of this size.
+	 */
+	get maxEmbeddingBatchSize(): number {
+		return 1;
 	}
 
 	/**
-	 * Generate embeddings for text (optional, Phase 3)
+	 * Generate embeddings for a batch of texts (optional, Phase 3)
+	 * @param input Texts to embed, at most maxEmbeddingBatchSize
+	 * @param options Model and abort signal
+	 * @returns Vectors in input order, with usage
+	 */
+	embed(_input: string[], _options: ProviderEmbeddingOptions = {}): Promise<ProviderEmbeddingResult> {
+		// Default implementation throws error - providers can override
+		return Promise.reject(
+			new InvalidRequestError(`Embeddings not supported by ${this.name}`, { provider: this.id })
+		);
+	}
+
+	/**
+	 * Generate embeddings for text
 	 * @param text Text to embed
 	 * @returns Embedding vector
 	 */
-	embeddings(text: string): Promise<number[]> {
-		// Default implementation throws error - providers can override
-		throw new Error(`Embeddings not supported by ${this.name}`);
+	async embeddings(text: string, options?: ProviderEmbeddingOptions): Promise<number[]> {
+		const result = await this.embed([text], options);
+		const embedding = result.embeddings[0];
+		if (!embedding) {
+			throw new ProviderError(`${this.name} returned no embedding`, {
+				provider: this.id,
+				model: result.model,
+			});
+		}
+		return embedding;
 	}
 
 	/**
@@ -85,6 +176,167 @@ export abstract class LLMProvider {
 		return safeConfig;
 	}
 
+	/**
+	 * Timeout and retry policy from this provider's configuration
+	 * @param signal Optional abort signal for the request
+	 */
+	protected getRequestPolicy(signal?: AbortSignal): RequestPolicy {
+		return {
+			timeout: this.config.timeout ?? 30000,
+			maxRetries: this.config.maxRetries ?? 3,
+			signal,
+		};
+	}
+
+	/**
+	 * Send an HTTP request with this provider's timeout and retry policy
+	 * @param params requestUrl parameters
+	 * @param signal Optional abort signal
+	 * @throws HttpError for non-2xx responses
+	 */
+	protected request(params: RequestUrlParam, signal?: AbortSignal): Promise<RequestUrlResponse> {
+		return sendRequest(params, this.getRequestPolicy(signal));
+	}
+
+	/**
+	 * Convert a failed request into a typed LLMConnectorError
+	 * Existing LLMConnectorErrors (and aborts) pass through untouched.
+	 * @param error Error thrown while sending or reading a request
+	 * @param model Model the request was sent to, if any
+	 */
+	protected toProviderError(error: unknown, model?: string): LLMConnectorError {
+		const details: LLMErrorDetails = { provider: this.id, model, cause: error };
+
+		if (error instanceof LLMConnectorError) {
+			return error;
+		}
+		if (isAbortError(error)) {
+			return new AbortError(undefined, details);
+		}
+
+		if (error instanceof HttpError) {
+			const detail = extractErrorMessage(error.body);
+			const lowerBody = error.body.toLowerCase();
+
+			if (error.status === 401 || error.status === 403) {
+				return new AuthenticationError(`Invalid API key. Please check your ${this.name} API key.`, details);
+			}
+			if (error.status === 402 ||
+				((error.status === 400 || error.status === 429) && QUOTA_PATTERNS.some(pattern => lowerBody.includes(pattern)))) {
+				return new QuotaExceededError(
+					`Insufficient credits. Please add credits to your ${this.name} account.`,
+					details
+				);
+			}
+			if (error.status === 429) {
+				return new RateLimitError(
+					`Rate limit exceeded for ${this.name}. Please try again later.`,
+					{ ...details, retryAfterMs: error.retryAfterMs }
+				);
+			}
+			if (error.status === 404) {
+				return new ModelNotFoundError(
+					`${this.name}: ${detail || `model ${model ?? ''} not found`}`.trim(),
+					details
+				);
+			}
+			if ((error.status === 400 || error.status === 413) &&
+				CONTEXT_LENGTH_PATTERNS.some(pattern => lowerBody.includes(pattern))) {
+				return new ContextLengthExceededError(`${this.name}: ${detail}`, details);
+			}
+
+			return new ProviderError(
+				`${this.name} request failed (status ${error.status})${detail ? `: ${detail}` : ''}`,
+				{ ...details, status: error.status, retryable: error.status >= 500 }
+			);
+		}
+
+		if (error instanceof RequestTimeoutError) {
+			return new TimeoutError(`${this.name} did not respond within ${error.timeoutMs}ms`, details);
+		}
+
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		const lowerMessage = message.toLowerCase();
+		if (NETWORK_ERROR_PATTERNS.some(pattern => lowerMessage.includes(pattern))) {
+			return new ProviderUnreachableError(`Could not reach ${this.name}: ${message}`, details);
+		}
+		return new ProviderError(`${this.name} request failed: ${message}`, details);
+	}
+
+	/**
+	 * Build the full message list for a request
+	 * Order: systemPrompt, then conversation history, then prompt (with options.images)
+	 * as the final user turn. Without a prompt, options.images go to the last user message.
+	 * Providers translate the result into their native format.
+	 * @param options Completion options
+	 * @returns Normalized message array
+	 * @throws InvalidRequestError if there are images but no user turn to attach them to
+	 */
+	protected buildMessages(options: CompletionOptions): ChatMessage[] {
+		const messages: ChatMessage[] = [];
+
+		if (options.systemPrompt) {
+			messages.push({ role: 'system', content: options.systemPrompt });
+		}
+
+		if (options.messages) {
+			messages.push(...options.messages);
+		}
+
+		if (options.prompt) {
+			const message: ChatMessage = { role: 'user', content: options.prompt };
+			if (options.images?.length) {
+				message.images = options.images;
+			}
+			messages.push(message);
+		} else if (options.images?.length) {
+			this.attachImagesToLastUserMessage(messages, options.images);
+		}
+
+		return messages;
+	}
+
+	/**
+	 * Add images to the last user message, copying it so the caller's history is not modified
+	 */
+	private attachImagesToLastUserMessage(messages: ChatMessage[], images: ImageAttachment[]): void {
+		for (let index = messages.length - 1; index >= 0; index--) {
+			const message = messages[index];
+			if (message?.role === 'user') {
+				messages[index] = { ...message, images: [...(message.images ?? []), ...images] };
+				return;
+			}
+		}
+		throw new InvalidRequestError('Images need a prompt or a user message to be attached to', {
+			provider: this.id,
+		});
+	}
+
+	/**
+	 * Append the JSON output instruction for responseFormat to the system prompt
+	 * Used where the API has no schema parameter, or only a plain JSON mode.
+	 */
+	protected withJsonInstruction(options: CompletionOptions): CompletionOptions {
+		if (!options.responseFormat) {
+			return options;
+		}
+		const instruction = getJsonInstruction(options.responseFormat);
+		return {
+			...options,
+			systemPrompt: options.systemPrompt ? `${options.systemPrompt}\n\n${instruction}` : instruction,
+		};
+	}
+
+	/**
+	 * Price fields of a model from prices in USD per million tokens
+	 */
+	protected toPricing(prompt: number, completion: number): Pick<Model, 'costPerToken' | 'pricePerMillion'> {
+		return {
+			costPerToken: { prompt: prompt / 1e6, completion: completion / 1e6 },
+			pricePerMillion: { prompt, completion },
+		};
+	}
+
 	/**
 	 * Check if provider is configured with required settings
 	 */
@@ -101,3 +353,25 @@ export abstract class LLMProvider {
 		return true;
 	}
 }
+
+/**
+ * Pull a readable message out of a JSON error body
+ * Handles {error: {message}}, {error: "..."} and {message} shapes; falls back to the raw text.
+ */
+function extractErrorMessage(body: string): string {
+	try {
+		const data = JSON.parse(body) as { error?: string | { message?: string }; message?: string };
+		if (typeof data.error === 'string') {
+			return data.error;
+		}
+		if (data.error?.message) {
+			return data.error.message;
+		}
+		if (data.message) {
+			return data.message;
+		}
+	} catch {
+		// Not JSON
+	}
+	return body.trim();
+}
@@ -0,0 +1,138 @@
+import { OpenAIProvider } from './OpenAIProvider';
+import type { OpenAIModel } from './OpenAIProvider';
+import { ProviderNotConfiguredError } from '../errors';
+import type { Model, ModelTag } from '../types';
+
+/**
+ * /models entry of the Mistral API
+ */
+interface MistralModel extends OpenAIModel {
+	name?: string | null;
+	max_context_length?: number;
+	capabilities?: {
+		completion_chat?: boolean;
+		function_calling?: boolean;
+		vision?: boolean;
+	};
+}
+
+/**
+ * Approximate pricing in USD per million tokens (may change)
+ * Checked in order, so more specific IDs come first.
+ */
+const MISTRAL_PRICING: Array<{ match: string; prompt: number; completion: number }> = [
+	{ match: 'codestral-embed', prompt: 0.15, completion: 0 },
+	{ match: 'mistral-embed', prompt: 0.10, completion: 0 },
+	{ match: 'mistral-large', prompt: 2.0, completion: 6.0 },
+	{ match: 'pixtral-large', prompt: 2.0, completion: 6.0 },
+	{ match: 'magistral-medium', prompt: 2.0, completion: 5.0 },
+	{ match: 'magistral-small', prompt: 0.5, completion: 1.5 },
+	{ match: 'devstral-medium', prompt: 0.4, completion: 2.0 },
+	{ match: 'mistral-medium', prompt: 0.4, completion: 2.0 },
+	{ match: 'devstral-small', prompt: 0.1, completion: 0.3 },
+	{ match: 'mistral-small', prompt: 0.1, completion: 0.3 },
+	{ match: 'codestral', prompt: 0.3, completion: 0.9 },
+	{ match: 'ministral-8b', prompt: 0.1, completion: 0.1 },
+	{ match: 'ministral-3b', prompt: 0.04, completion: 0.04 },
+	{ match: 'pixtral-12b', prompt: 0.15, completion: 0.15 },
+	{ match: 'open-mistral-nemo', prompt: 0.15, completion: 0.15 },
+];
+
+/**
+ * Mistral provider implementation
+ * Mistral's chat, embeddings and models endpoints follow the OpenAI format.
+ * Rate-limit headers carry no reset time, so 429s are retried after Retry-After or backoff.
+ * Requires API key from https://console.mistral.ai/
+ */
+export class MistralProvider extends OpenAIProvider {
+	get id(): string {
+		return 'mistral';
+	}
+
+	get name(): string {
+		return 'Mistral';
+	}
+
+	/**
+	 * Mistral accepts up to 512 inputs per embeddings request
+	 */
+	get maxEmbeddingBatchSize(): number {
+		return 512;
+	}
+
+	protected get apiBaseUrl(): string {
+		return this.config.baseUrl ?? 'https://api.mistral.ai/v1';
+	}
+
+	protected get defaultChatModel(): string {
+		return 'mistral-small-latest';
+	}
+
+	protected get defaultEmbeddingModel(): string {
+		return 'mistral-embed';
+	}
+
+	/**
+	 * Mistral rejects unknown parameters and sends stream usage by itself
+	 */
+	protected get supportsStreamOptions(): boolean {
+		return false;
+	}
+
+	protected getHeaders(): Record<string, string> {
+		const apiKey = this.config.apiKey;
+		if (!apiKey) {
+			throw new ProviderNotConfiguredError('Mistral API key is required', { provider: this.id });
+		}
+		return {
+			'Authorization': `Bearer ${apiKey}`,
+			'Content-Type': 'application/json',
+		};
+	}
+
+	/**
+	 * Chat and embedding models; OCR and moderation models are left out
+	 */
+	protected isListedModel(model: MistralModel): boolean {
+		if (/ocr|moderation/.test(model.id)) {
+			return false;
+		}
+		return model.capabilities?.completion_chat !== false || model.id.includes('embed');
+	}
+
+	protected convertToModel(mistralModel: MistralModel): Model {
+		const modelId = mistralModel.id.toLowerCase();
+		const isEmbedding = modelId.includes('embed');
+		const tags: ModelTag[] = [isEmbedding ? 'embedding' : 'chat'];
+
+		if (!isEmbedding) {
+			// Large, medium and the magistral reasoning models
+			if (/large|medium|magistral/.test(modelId)) {
+				tags.push('smart');
+			}
+			if (/small|ministral|tiny|nemo/.test(modelId)) {
+				tags.push('fast');
+			}
+			if (/codestral|devstral/.test(modelId)) {
+				tags.push('code');
+			}
+			if (mistralModel.capabilities?.vision || modelId.includes('pixtral')) {
+				tags.push('multimodal');
+			}
+		}
+
+		const pricing = MISTRAL_PRICING.find(entry => modelId.includes(entry.match));
+
+		return {
+			id: mistralModel.id,
+			name: mistralModel.name ?? mistralModel.id,
+			provider: this.id,
+			contextWindow: mistralModel.max_context_length,
+			tags,
+			capabilities: isEmbedding
+				? ['embeddings']
+				: mistralModel.capabilities?.function_calling === false ? ['text'] : ['text', 'tools'],
+			...(pricing && this.toPricing(pricing.prompt, pricing.completion)),
+		};
+	}
+}
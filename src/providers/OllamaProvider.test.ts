@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OllamaProvider } from './OllamaProvider';
+import { ProviderError } from '../errors';
+import type { CompletionResult } from '../types';
+
+const fetchMock = vi.fn<unknown[], Promise<Response>>();
+
+/**
+ * Response whose NDJSON body arrives in the given chunks
+ */
+function createResponse(chunks: string[]): Response {
+	const encoder = new TextEncoder();
+	return new Response(new ReadableStream<Uint8Array>({
+		start(controller) {
+			for (const chunk of chunks) {
+				controller.enqueue(encoder.encode(chunk));
+			}
+			controller.close();
+		},
+	}), { status: 200, headers: { 'Content-Type': 'application/x-ndjson' } });
+}
+
+/**
+ * Stream a completion, collecting the yielded chunks and the final result
+ */
+async function runStream(
+	chunks: string[],
+	onError?: (error: Error) => void
+): Promise<{ yielded: string[]; result?: CompletionResult }> {
+	fetchMock.mockResolvedValue(createResponse(chunks));
+	const provider = new OllamaProvider({ id: 'ollama', enabled: true, baseUrl: 'http://localhost:11434', maxRetries: 0 });
+
+	const yielded: string[] = [];
+	let result: CompletionResult | undefined;
+	const options = { prompt: 'Hi', model: 'llama3.2', onComplete: (done: CompletionResult) => { result = done; }, onError };
+	for await (const chunk of provider.stream(options)) {
+		yielded.push(chunk);
+	}
+	return { yielded, result };
+}
+
+describe('OllamaProvider.stream', () => {
+	beforeEach(() => {
+		vi.stubGlobal('window', globalThis);
+		vi.stubGlobal('fetch', fetchMock);
+		vi.spyOn(console, 'debug').mockImplementation(() => undefined);
+		vi.spyOn(console, 'error').mockImplementation(() => undefined);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+		fetchMock.mockReset();
+	});
+
+	it('yields content from NDJSON frames split across chunks', async () => {
+		const { yielded, result } = await runStream([
+			'{"model":"llama3.2","message":{"role":"assistant","content":"Hel"},"done":false}\n{"model":"lla',
+			'ma3.2","message":{"role":"assistant","content":"lo"},"done":false}\n\n',
+			'{"model":"llama3.2","message":{"role":"assistant","content":""},"done":true,"done_reason":"stop",',
+			'"prompt_eval_count":12,"eval_count":2,"eval_duration":1000000}\n',
+		]);
+
+		expect(yielded).toEqual(['Hel', 'lo']);
+		expect(result?.text).toBe('Hello');
+		expect(result?.finishReason).toBe('stop');
+		expect(result?.tokens).toEqual({ prompt: 12, completion: 2, total: 14 });
+	});
+
+	it('maps done_reason length and collects tool calls', async () => {
+		const truncated = await runStream([
+			'{"message":{"content":"Cut"},"done":true,"done_reason":"length"}',
+		]);
+		const withTools = await runStream([
+			'{"message":{"content":"","tool_calls":[{"function":{"name":"search","arguments":{"q":"x"}}}]},"done":false}\n',
+			'{"message":{"content":""},"done":true,"done_reason":"stop"}\n',
+		]);
+
+		expect(truncated.result?.finishReason).toBe('length');
+		expect(withTools.result?.finishReason).toBe('tool_calls');
+		expect(withTools.result?.toolCalls).toEqual([{ id: 'call_0', name: 'search', arguments: { q: 'x' } }]);
+	});
+
+	it('throws a ProviderError for an error frame', async () => {
+		const onError = vi.fn();
+
+		await expect(runStream([
+			'{"message":{"content":"Hi"},"done":false}\n',
+			'{"error":"model runner has unexpectedly stopped"}\n',
+		], onError)).rejects.toThrow(ProviderError);
+		expect(onError).toHaveBeenCalledWith(expect.objectContaining({
+			message: expect.stringContaining('model runner has unexpectedly stopped') as string,
+		}));
+	});
+
+	it('reports finishReason error when the stream ends without a done frame', async () => {
+		const { yielded, result } = await runStream([
+			'{"message":{"content":"Partial"},"done":false}\n',
+		]);
+
+		expect(yielded).toEqual(['Partial']);
+		expect(result?.text).toBe('Partial');
+		expect(result?.finishReason).toBe('error');
+		expect(result?.tokens.total).toBe(0);
+	});
+});
@@ -1,14 +1,36 @@
 import { LLMProvider } from './LLMProvider';
-import { requestUrl } from 'obsidian';
+import { ProviderError } from '../errors';
+import { isAbortError } from '../utils/abort';
+import { encodeImage } from '../utils/images';
+import { toOpenAITools } from '../utils/tools';
+import type { OpenAITool } from '../utils/tools';
+import { streamRequest, readLines } from '../utils/streaming';
 import type {
+	ChatMessage,
 	CompletionOptions,
 	CompletionResult,
 	StreamOptions,
 	Model,
 	ModelTag,
 	ConnectionResult,
+	ProviderEmbeddingResult,
+	ProviderEmbeddingOptions,
+	ToolCall,
 } from '../types';
 
+/**
+ * Model families that support tool calling in Ollama
+ * Based on the "tools" tag in the Ollama model library.
+ */
+const TOOL_MODEL_PATTERNS = [
+	'llama3.1', 'llama3.2', 'llama3.3', 'llama4',
+	'qwen2.5', 'qwen3', 'qwq',
+	'mistral', 'mixtral', 'ministral',
+	'command-r', 'firefunction', 'hermes3', 'nemotron',
+	'granite3', 'granite4', 'phi4-mini', 'smollm2', 'devstral',
+	'gpt-oss', 'deepseek-v3', 'cogito',
+];
+
 /**
  * Ollama API response interfaces
  */
@@ -34,8 +56,10 @@ interface OllamaChatResponse {
 	message: {
 		role: string;
 		content: string;
+		tool_calls?: OllamaToolCall[];
 	};
 	done: boolean;
+	done_reason?: string;
 	total_duration?: number;
 	load_duration?: number;
 	prompt_eval_count?: number;
@@ -44,6 +68,29 @@ interface OllamaChatResponse {
 	eval_duration?: number;
 }
 
+/**
+ * Tool call in an Ollama response (arguments are already parsed; ids are optional)
+ */
+interface OllamaToolCall {
+	id?: string;
+	function: {
+		name: string;
+		arguments: Record<string, unknown>;
+	};
+}
+
+interface OllamaMessage {
+	role: string;
+	content: string;
+	images?: string[];
+	tool_calls?: OllamaToolCall[];
+	tool_name?: string;
+}
+
+interface OllamaErrorFrame {
+	error: string;
+}
+
 interface OllamaEmbeddingResponse {
 	model: string;
 	embeddings: number[][];
@@ -65,6 +112,10 @@ export class OllamaProvider extends LLMProvider {
 		return 'Ollama';
 	}
 
+	get isCloud(): boolean {
+		return false;
+	}
+
 	protected validateConfig(): boolean {
 		// Ollama doesn't require an API key, just a base URL
 		return !!this.config.baseUrl;
@@ -102,7 +153,7 @@ export class OllamaProvider extends LLMProvider {
 		const url = `${this.config.baseUrl}/api/tags`;
 
 		try {
-			const response = await requestUrl({
+			const response = await this.request({
 				url,
 				method: 'GET',
 				headers: {
@@ -140,41 +191,20 @@ export class OllamaProvider extends LLMProvider {
 	async complete(options: CompletionOptions): Promise<CompletionResult> {
 		const url = `${this.config.baseUrl}/api/chat`;
 
-		// Build request body
-		const requestBody = {
-			model: options.model,
-			messages: [
-				...(options.systemPrompt ? [{
-					role: 'system',
-					content: options.systemPrompt,
-				}] : []),
-				{
-					role: 'user',
-					content: options.prompt,
-				},
-			],
-			stream: false,
-			options: {
-				...(options.temperature !== undefined && { temperature: options.temperature }),
-				...(options.maxTokens !== undefined && { num_predict: options.maxTokens }),
-				...(options.topP !== undefined && { top_p: options.topP }),
-				...(options.frequencyPenalty !== undefined && { frequency_penalty: options.frequencyPenalty }),
-				...(options.presencePenalty !== undefined && { presence_penalty: options.presencePenalty }),
-				...(options.stop !== undefined && { stop: options.stop }),
-			},
-		};
+		const requestBody = this.buildRequestBody(options, false);
 
 		try {
-			const response = await requestUrl({
+			const response = await this.request({
 				url,
 				method: 'POST',
 				headers: {
 					'Content-Type': 'application/json',
 				},
 				body: JSON.stringify(requestBody),
-			});
+			}, options.abortSignal);
 
 			const data = response.json as OllamaChatResponse;
+			const toolCalls = this.toToolCalls(data.message.tool_calls ?? []);
 
 			// Calculate tokens per second if duration data available
 			const tokensPerSecond =
@@ -193,62 +223,129 @@ export class OllamaProvider extends LLMProvider {
 					completion: data.eval_count ?? 0,
 					total: (data.prompt_eval_count ?? 0) + (data.eval_count ?? 0),
 				},
-				finishReason: data.done ? 'stop' : 'error',
+				finishReason: toolCalls.length > 0 ? 'tool_calls' : this.mapFinishReason(data),
+				...(toolCalls.length > 0 && { toolCalls }),
 			};
 		} catch (error: unknown) {
-			console.error('Ollama completion error:', error);
-			throw new Error(
-				error instanceof Error
-					? `Ollama completion failed: ${error.message}`
-					: 'Ollama completion failed'
-			);
+			if (!isAbortError(error)) {
+				console.error('Ollama completion error:', error);
+			}
+			throw this.toProviderError(error, options.model);
 		}
 	}
 
 	/**
-	 * Stream a completion using Ollama's streaming API
-	 * Note: Streaming requires direct fetch API which is restricted in Obsidian.
-	 * This is a known limitation - consider implementing via requestUrl polling
-	 * or waiting for Obsidian API improvements.
+	 * Stream a completion using Ollama's /api/chat endpoint
+	 * With stream: true, Ollama emits one JSON object per line (NDJSON);
+	 * the final frame has done: true and carries the token counts.
 	 */
 	async *stream(options: StreamOptions): AsyncGenerator<string, void, unknown> {
-		// TODO: Implement streaming without fetch API
-		// Obsidian's requestUrl doesn't support streaming responses
-		// Possible solutions:
-		// 1. Poll the API repeatedly with short max_tokens
-		// 2. Use non-streaming API and yield in chunks
-		// 3. Request Obsidian API enhancement
-		
-		// For now, fall back to non-streaming and yield in chunks
-		const result = await this.complete(options);
-		const words = result.text.split(' ');
-		
-		for (const word of words) {
-			const chunk = word + ' ';
-			yield chunk;
-			if (options.onChunk) {
-				options.onChunk(chunk);
+		const url = `${this.config.baseUrl}/api/chat`;
+		const requestBody = this.buildRequestBody(options, true);
+
+		let text = '';
+		let finalFrame: OllamaChatResponse | null = null;
+		const toolCalls: OllamaToolCall[] = [];
+
+		try {
+			const response = await streamRequest({
+				url,
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify(requestBody),
+			}, this.getRequestPolicy(options.abortSignal));
+
+			// Response body is guaranteed by streamRequest
+			const body = response.body as ReadableStream<Uint8Array>;
+
+			for await (const line of readLines(body)) {
+				if (!line.trim()) {
+					continue;
+				}
+
+				const frame = JSON.parse(line) as OllamaChatResponse | OllamaErrorFrame;
+				if ('error' in frame) {
+					throw new ProviderError(`Ollama stream failed: ${frame.error}`, {
+						provider: this.id,
+						model: options.model,
+					});
+				}
+
+				// Tool calls arrive complete, usually in a single frame
+				toolCalls.push(...(frame.message?.tool_calls ?? []));
+
+				const delta = frame.message?.content;
+				if (delta) {
+					text += delta;
+					options.onChunk?.(delta);
+					yield delta;
+				}
+
+				if (frame.done) {
+					finalFrame = frame;
+					break;
+				}
+			}
+		} catch (error: unknown) {
+			if (!isAbortError(error)) {
+				console.error('Ollama streaming error:', error);
 			}
-			// Small delay to simulate streaming
-			await new Promise(resolve => setTimeout(resolve, 10));
+			const streamError = this.toProviderError(error, options.model);
+			options.onError?.(streamError);
+			throw streamError;
+		}
+
+		const promptTokens = finalFrame?.prompt_eval_count ?? 0;
+		const completionTokens = finalFrame?.eval_count ?? 0;
+
+		if (finalFrame?.eval_count && finalFrame.eval_duration) {
+			const tokensPerSecond = (finalFrame.eval_count / finalFrame.eval_duration) * 1e9;
+			console.debug(`Ollama stream: ${tokensPerSecond.toFixed(2)} tokens/s`);
 		}
 
-		if (options.onComplete) {
-			options.onComplete(result);
+		const result: CompletionResult = {
+			text,
+			model: options.model ?? finalFrame?.model ?? '',
+			provider: this.id,
+			tokens: {
+				prompt: promptTokens,
+				completion: completionTokens,
+				total: promptTokens + completionTokens,
+			},
+			// No done frame means the stream was cut off
+			finishReason: finalFrame ? this.mapFinishReason(finalFrame) : 'error',
+		};
+		if (toolCalls.length > 0) {
+			result.toolCalls = this.toToolCalls(toolCalls);
+			if (finalFrame) {
+				result.finishReason = 'tool_calls';
+			}
 		}
+
+		options.onComplete?.(result);
+	}
+
+	/**
+	 * /api/embed takes an array input; batches are kept small because
+	 * the model runs locally and large batches block the server
+	 */
+	get maxEmbeddingBatchSize(): number {
+		return 32;
 	}
 
 	/**
-	 * Generate embeddings using Ollama's /api/embed endpoint
+	 * Generate embeddings for a batch of texts using Ollama's /api/embed endpoint
 	 */
-	async embeddings(text: string): Promise<number[]> {
+	async embed(input: string[], options: ProviderEmbeddingOptions = {}): Promise<ProviderEmbeddingResult> {
 		const url = `${this.config.baseUrl}/api/embed`;
 
-		// Use the configured default model or a known embedding model
-		const model = this.config.defaultModel ?? 'nomic-embed-text';
+		// Use the requested model, the configured default, or a known embedding model
+		const model = options.model ?? this.config.defaultModel ?? 'nomic-embed-text';
 
 		try {
-			const response = await requestUrl({
+			const response = await this.request({
 				url,
 				method: 'POST',
 				headers: {
@@ -256,28 +353,121 @@ export class OllamaProvider extends LLMProvider {
 				},
 				body: JSON.stringify({
 					model,
-					input: text,
+					input,
 				}),
-			});
+			}, options.abortSignal);
 
 			const data = response.json as OllamaEmbeddingResponse;
 
-			// Return the first embedding (Ollama returns an array)
-			if (data.embeddings && data.embeddings.length > 0 && data.embeddings[0]) {
-				return data.embeddings[0];
+			if (!data.embeddings || data.embeddings.length !== input.length) {
+				throw new Error(`Expected ${input.length} embeddings, got ${data.embeddings?.length ?? 0}`);
 			}
 
-			throw new Error('No embeddings returned from Ollama');
+			const promptTokens = data.prompt_eval_count ?? 0;
+			return {
+				embeddings: data.embeddings,
+				dimensions: data.embeddings[0]?.length ?? 0,
+				model: data.model || model,
+				provider: this.id,
+				tokens: {
+					prompt: promptTokens,
+					total: promptTokens,
+				},
+			};
 		} catch (error: unknown) {
-			console.error('Ollama embeddings error:', error);
-			throw new Error(
-				error instanceof Error
-					? `Ollama embeddings failed: ${error.message}`
-					: 'Ollama embeddings failed'
-			);
+			if (!isAbortError(error)) {
+				console.error('Ollama embeddings error:', error);
+			}
+			throw this.toProviderError(error, model);
 		}
 	}
 
+	/**
+	 * Build the /api/chat request body shared by complete() and stream()
+	 */
+	private buildRequestBody(options: CompletionOptions, stream: boolean): Record<string, unknown> {
+		return {
+			model: options.model,
+			// Ollama recommends repeating the schema in the prompt
+			messages: this.toApiMessages(this.buildMessages(this.withJsonInstruction(options))),
+			...(options.tools?.length && options.toolChoice !== 'none' && { tools: this.selectTools(options) }),
+			...(options.responseFormat && { format: options.responseFormat.schema ?? 'json' }),
+			stream,
+			options: {
+				...(options.temperature !== undefined && { temperature: options.temperature }),
+				...(options.maxTokens !== undefined && { num_predict: options.maxTokens }),
+				...(options.topP !== undefined && { top_p: options.topP }),
+				...(options.frequencyPenalty !== undefined && { frequency_penalty: options.frequencyPenalty }),
+				...(options.presencePenalty !== undefined && { presence_penalty: options.presencePenalty }),
+				...(options.stop !== undefined && { stop: options.stop }),
+			},
+		};
+	}
+
+	/**
+	 * Convert messages to the /api/chat format
+	 * Tool results are matched to their call by name, since Ollama doesn't use call ids.
+	 */
+	private toApiMessages(messages: ChatMessage[]): OllamaMessage[] {
+		const toolNames = new Map<string, string>();
+
+		return messages.map(message => {
+			const apiMessage: OllamaMessage = { role: message.role, content: message.content };
+
+			if (message.images?.length) {
+				// Ollama takes raw base64 images on the message
+				apiMessage.images = message.images.map(image => encodeImage(image).data);
+			}
+			if (message.toolCalls?.length) {
+				apiMessage.tool_calls = message.toolCalls.map(call => {
+					toolNames.set(call.id, call.name);
+					return { function: { name: call.name, arguments: call.arguments } };
+				});
+			}
+			if (message.toolCallId) {
+				const toolName = toolNames.get(message.toolCallId);
+				if (toolName) {
+					apiMessage.tool_name = toolName;
+				}
+			}
+
+			return apiMessage;
+		});
+	}
+
+	/**
+	 * Tool definitions to send
+	 * Ollama has no tool_choice: a named choice sends only that tool, 'required' can't be enforced.
+	 */
+	private selectTools(options: CompletionOptions): OpenAITool[] {
+		const choice = options.toolChoice;
+		const tools = typeof choice === 'object'
+			? (options.tools ?? []).filter(tool => tool.name === choice.name)
+			: options.tools ?? [];
+		return toOpenAITools(tools);
+	}
+
+	/**
+	 * Convert Ollama tool calls, generating ids where Ollama omits them
+	 */
+	private toToolCalls(calls: OllamaToolCall[]): ToolCall[] {
+		return calls.map((call, index) => ({
+			id: call.id ?? `call_${index}`,
+			name: call.function.name,
+			arguments: call.function.arguments ?? {},
+		}));
+	}
+
+	/**
+	 * Map Ollama's done/done_reason to CompletionResult.finishReason
+	 */
+	private mapFinishReason(frame: OllamaChatResponse): CompletionResult['finishReason'] {
+		if (!frame.done) {
+			return 'error';
+		}
+		return frame.done_reason === 'length' ? 'length' : 'stop';
+	}
+
 	/**
 	 * Infer model tags based on model name and family
 	 */
@@ -329,6 +519,11 @@ export class OllamaProvider extends LLMProvider {
 			capabilities.push('embeddings');
 		}
 
+		// Vision variants of these families don't support tools
+		if (TOOL_MODEL_PATTERNS.some(pattern => nameLower.includes(pattern)) && !nameLower.includes('vision')) {
+			capabilities.push('tools');
+		}
+
 		return capabilities;
 	}
 
@@ -0,0 +1,111 @@
+import { OpenAIProvider } from './OpenAIProvider';
+import type { OpenAIModel } from './OpenAIProvider';
+import { ProviderNotConfiguredError } from '../errors';
+import type { Model, ModelTag } from '../types';
+
+/**
+ * /models entry; some servers add the context length (vLLM: max_model_len)
+ */
+interface CompatibleModel extends OpenAIModel {
+	max_model_len?: number;
+	context_length?: number;
+}
+
+/**
+ * Hosts that never leave the machine or local network
+ */
+const LOCAL_HOST_PATTERN = /^(localhost|127\.\d+\.\d+\.\d+|\[::1\]|0\.0\.0\.0|10\.\d+\.\d+\.\d+|192\.168\.\d+\.\d+|172\.(1[6-9]|2\d|3[01])\.\d+\.\d+|[\w-]+\.local)$/;
+
+/**
+ * Server speaking the OpenAI chat completions protocol
+ * (LM Studio, llama.cpp server, vLLM, LocalAI, ...)
+ * Added by the user under its own ID, name and base URL; the API key is optional
+ * and every model the server lists is offered.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+	get id(): string {
+		return this.config.id;
+	}
+
+	get name(): string {
+		return this.config.name ?? this.config.id;
+	}
+
+	/**
+	 * Servers on localhost or a private network address count as local
+	 */
+	get isCloud(): boolean {
+		try {
+			return !LOCAL_HOST_PATTERN.test(new URL(this.apiBaseUrl).hostname);
+		} catch {
+			return true;
+		}
+	}
+
+	protected validateConfig(): boolean {
+		return !!this.config.baseUrl;
+	}
+
+	protected get apiBaseUrl(): string {
+		const baseUrl = this.config.baseUrl;
+		if (!baseUrl) {
+			throw new ProviderNotConfiguredError(`${this.name} base URL is required`, { provider: this.id });
+		}
+		return baseUrl.replace(/\/+$/, '');
+	}
+
+	/**
+	 * Bearer token only if a key is set, plus the endpoint's custom headers
+	 */
+	protected getHeaders(): Record<string, string> {
+		const headers: Record<string, string> = {
+			'Content-Type': 'application/json',
+		};
+		if (this.config.apiKey) {
+			headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+		}
+		return { ...headers, ...this.config.headers };
+	}
+
+	protected isListedModel(_model: OpenAIModel): boolean {
+		return true;
+	}
+
+	/**
+	 * Model IDs are arbitrary here, so only embedding models are told apart by name.
+	 * Tool support depends on the served model; the server rejects tools it can't handle.
+	 */
+	protected convertToModel(oaiModel: CompatibleModel): Model {
+		const modelId = oaiModel.id.toLowerCase();
+		const isEmbedding = /embed|bge-|e5-|minilm/.test(modelId);
+		const tags: ModelTag[] = [isEmbedding ? 'embedding' : 'chat'];
+
+		if (modelId.includes('code')) {
+			tags.push('code');
+		}
+		if (/vision|llava|-vl\b|-vl-/.test(modelId)) {
+			tags.push('multimodal');
+		}
+
+		return {
+			id: oaiModel.id,
+			name: oaiModel.id,
+			provider: this.id,
+			// Most servers don't report it; 8192 is a safe default for current local models
+			contextWindow: oaiModel.max_model_len ?? oaiModel.context_length ?? 8192,
+			tags,
+			capabilities: isEmbedding ? ['embeddings'] : ['text', 'tools'],
+		};
+	}
+}
+
+/**
+ * ID for a new endpoint: "openai-compatible-<n>" with the lowest free number
+ */
+export function createCompatibleProviderId(existingIds: string[]): string {
+	let index = 1;
+	while (existingIds.includes(`openai-compatible-${index}`)) {
+		index++;
+	}
+	return `openai-compatible-${index}`;
+}
@@ -1,18 +1,32 @@
 import { LLMProvider } from './LLMProvider';
-import { requestUrl } from 'obsidian';
+import { ProviderError, ProviderNotConfiguredError } from '../errors';
+import { toDataUrl } from '../utils/images';
+import {
+	fromOpenAIToolCalls,
+	mergeToolCallDeltas,
+	toOpenAIToolCalls,
+	toOpenAIToolChoice,
+	toOpenAITools,
+} from '../utils/tools';
+import type { OpenAITool, OpenAIToolCall, OpenAIToolCallDelta, OpenAIToolChoice } from '../utils/tools';
+import { streamRequest, readLines, parseServerSentEvents } from '../utils/streaming';
 import type {
+	ChatMessage,
 	CompletionOptions,
+	JsonSchema,
 	CompletionResult,
 	StreamOptions,
 	Model,
 	ModelTag,
 	ConnectionResult,
+	ProviderEmbeddingResult,
+	ProviderEmbeddingOptions,
 } from '../types';
 
 /**
  * OpenAI API response interfaces
  */
-interface OpenAIModel {
+export interface OpenAIModel {
 	id: string;
 	object: string;
 	created: number;
@@ -20,10 +34,16 @@ interface OpenAIModel {
 }
 
 interface OpenAIMessage {
-	role: 'system' | 'user' | 'assistant';
-	content: string;
+	role: 'system' | 'user' | 'assistant' | 'tool';
+	content: string | OpenAIMessagePart[] | null;
+	tool_calls?: OpenAIToolCall[];
+	tool_call_id?: string;
 }
 
+type OpenAIMessagePart =
+	| { type: 'text'; text: string }
+	| { type: 'image_url'; image_url: { url: string } };
+
 interface OpenAIChatRequest {
 	model: string;
 	messages: OpenAIMessage[];
@@ -33,6 +53,15 @@ interface OpenAIChatRequest {
 	frequency_penalty?: number;
 	presence_penalty?: number;
 	stop?: string[];
+	stream?: boolean;
+	stream_options?: {
+		include_usage: boolean;
+	};
+	tools?: OpenAITool[];
+	tool_choice?: OpenAIToolChoice;
+	response_format?:
+		| { type: 'json_object' }
+		| { type: 'json_schema'; json_schema: { name: string; schema: JsonSchema } };
 }
 
 interface OpenAIChatResponse {
@@ -44,7 +73,8 @@ interface OpenAIChatResponse {
 		index: number;
 		message: {
 			role: string;
-			content: string;
+			content: string | null;
+			tool_calls?: OpenAIToolCall[];
 		};
 		finish_reason: string;
 	}>;
@@ -55,6 +85,41 @@ interface OpenAIChatResponse {
 	};
 }
 
+interface OpenAIChatStreamChunk {
+	id: string;
+	model: string;
+	choices: Array<{
+		index: number;
+		delta: {
+			role?: string;
+			content?: string | null;
+			tool_calls?: OpenAIToolCallDelta[];
+		};
+		finish_reason: string | null;
+	}>;
+	usage?: {
+		prompt_tokens: number;
+		completion_tokens: number;
+		total_tokens: number;
+	} | null;
+	error?: {
+		message: string;
+		code?: number | string;
+	};
+}
+
+interface OpenAIEmbeddingResponse {
+	model?: string;
+	data: Array<{
+		index: number;
+		embedding: number[];
+	}>;
+	usage?: {
+		prompt_tokens: number;
+		total_tokens: number;
+	};
+}
+
 /**
  * OpenAI provider implementation
  * Supports GPT models from OpenAI
@@ -82,19 +147,19 @@ export class OpenAIProvider extends LLMProvider {
 			const models = await this.listModels();
 			return {
 				success: true,
-				message: `Connected to OpenAI. Found ${models.length} models.`,
+				message: `Connected to ${this.name}. Found ${models.length} models.`,
 				models,
 			};
 		} catch (error: unknown) {
 			if (error instanceof Error) {
 				return {
 					success: false,
-					message: `Failed to connect to OpenAI: ${error.message}`,
+					message: `Failed to connect to ${this.name}: ${error.message}`,
 				};
 			}
 			return {
 				success: false,
-				message: 'Failed to connect to OpenAI: Unknown error',
+				message: `Failed to connect to ${this.name}: Unknown error`,
 			};
 		}
 	}
@@ -103,27 +168,20 @@ export class OpenAIProvider extends LLMProvider {
 	 * List available models from OpenAI
 	 */
 	async listModels(): Promise<Model[]> {
-		const baseUrl = this.config.baseUrl ?? 'https://api.openai.com/v1';
-		const apiKey = this.config.apiKey;
-
-		if (!apiKey) {
-			throw new Error('OpenAI API key is required');
-		}
+		const baseUrl = this.apiBaseUrl;
+		const headers = this.getHeaders();
 
 		try {
-			const response = await requestUrl({
+			const response = await this.request({
 				url: `${baseUrl}/models`,
 				method: 'GET',
-				headers: {
-					'Authorization': `Bearer ${apiKey}`,
-					'Content-Type': 'application/json',
-				},
+				headers,
 			});
 
 			const data = response.json as { data: OpenAIModel[] };
 			
 			return data.data
-				.filter(model => model.id.startsWith('gpt-') || model.id.startsWith('o1-') || model.id.includes('embedding'))
+				.filter(model => this.isListedModel(model))
 				.map((model) => this.convertToModel(model));
 		} catch (error: unknown) {
 			if (error instanceof Error) {
@@ -133,10 +191,17 @@ export class OpenAIProvider extends LLMProvider {
 		}
 	}
 
+	/**
+	 * Whether a model from /models is offered (OpenAI also lists audio, image and moderation models)
+	 */
+	protected isListedModel(model: OpenAIModel): boolean {
+		return model.id.startsWith('gpt-') || model.id.startsWith('o1-') || model.id.includes('embedding');
+	}
+
 	/**
 	 * Convert OpenAI model format to our Model interface
 	 */
-	private convertToModel(oaiModel: OpenAIModel): Model {
+	protected convertToModel(oaiModel: OpenAIModel): Model {
 		const tags: ModelTag[] = [];
 		const modelId = oaiModel.id.toLowerCase();
 
@@ -181,31 +246,29 @@ export class OpenAIProvider extends LLMProvider {
 			contextWindow = 4096;
 		}
 
-		// Approximate pricing (as of latest data, may change)
-		let promptCost = 0.0;
-		let completionCost = 0.0;
-
-		if (modelId.includes('gpt-4o')) {
-			promptCost = 5.0;
-			completionCost = 15.0;
-		} else if (modelId.includes('gpt-4o-mini')) {
-			promptCost = 0.15;
-			completionCost = 0.60;
+		// Approximate pricing in USD per million tokens (as of latest data, may change);
+		// models not listed here get no prices
+		let pricing: { prompt: number; completion: number } | undefined;
+		if (modelId.includes('gpt-4o-mini')) {
+			pricing = { prompt: 0.15, completion: 0.60 };
+		} else if (modelId.includes('gpt-4o')) {
+			pricing = { prompt: 5.0, completion: 15.0 };
 		} else if (modelId.includes('gpt-4-turbo')) {
-			promptCost = 10.0;
-			completionCost = 30.0;
+			pricing = { prompt: 10.0, completion: 30.0 };
 		} else if (modelId.includes('gpt-4')) {
-			promptCost = 30.0;
-			completionCost = 60.0;
+			pricing = { prompt: 30.0, completion: 60.0 };
 		} else if (modelId.includes('gpt-3.5-turbo')) {
-			promptCost = 0.50;
-			completionCost = 1.50;
+			pricing = { prompt: 0.50, completion: 1.50 };
 		} else if (modelId.includes('o1-preview')) {
-			promptCost = 15.0;
-			completionCost = 60.0;
+			pricing = { prompt: 15.0, completion: 60.0 };
 		} else if (modelId.includes('o1-mini')) {
-			promptCost = 3.0;
-			completionCost = 12.0;
+			pricing = { prompt: 3.0, completion: 12.0 };
+		} else if (modelId.includes('text-embedding-3-small')) {
+			pricing = { prompt: 0.02, completion: 0 };
+		} else if (modelId.includes('text-embedding-3-large')) {
+			pricing = { prompt: 0.13, completion: 0 };
+		} else if (modelId.includes('text-embedding-ada-002')) {
+			pricing = { prompt: 0.10, completion: 0 };
 		}
 
 		return {
@@ -214,78 +277,42 @@ export class OpenAIProvider extends LLMProvider {
 			provider: this.id,
 			contextWindow,
 			tags,
-			capabilities: modelId.includes('embedding') ? ['embeddings'] : ['text'],
-			costPerToken: {
-				prompt: promptCost,
-				completion: completionCost,
-			},
+			capabilities: modelId.includes('embedding') ? ['embeddings'] : this.inferChatCapabilities(modelId),
+			...(pricing && this.toPricing(pricing.prompt, pricing.completion)),
 		};
 	}
 
 	/**
-	 * Generate completion using OpenAI
+	 * Infer capabilities of a chat model
+	 * Function calling is available on GPT-3.5 Turbo and later, except instruct and early o1 models.
 	 */
-	async complete(options: CompletionOptions): Promise<CompletionResult> {
-		const baseUrl = this.config.baseUrl ?? 'https://api.openai.com/v1';
-		const apiKey = this.config.apiKey;
-
-		if (!apiKey) {
-			throw new Error('OpenAI API key is required');
-		}
-
-		// Build messages array
-		const messages: OpenAIMessage[] = [];
-		
-		if (options.systemPrompt) {
-			messages.push({
-				role: 'system',
-				content: options.systemPrompt,
-			});
+	private inferChatCapabilities(modelId: string): string[] {
+		const capabilities = ['text'];
+		const supportsTools = /gpt-3\.5-turbo|gpt-4|gpt-5|^o[134]/.test(modelId) &&
+			!/instruct|o1-mini|o1-preview|realtime|audio|transcribe|tts|search/.test(modelId);
+		if (supportsTools) {
+			capabilities.push('tools');
 		}
+		return capabilities;
+	}
 
-		messages.push({
-			role: 'user',
-			content: options.prompt,
-		});
+	/**
+	 * Generate completion using OpenAI
+	 */
+	async complete(options: CompletionOptions): Promise<CompletionResult> {
+		const headers = this.getHeaders();
 
-		// Build request body
-		const requestBody: OpenAIChatRequest = {
-			model: options.model ?? this.config.defaultModel ?? 'gpt-3.5-turbo',
-			messages,
-		};
-
-		// Add optional parameters
-		if (options.temperature !== undefined) {
-			requestBody.temperature = options.temperature;
-		}
-		if (options.maxTokens !== undefined) {
-			requestBody.max_tokens = options.maxTokens;
-		}
-		if (options.topP !== undefined) {
-			requestBody.top_p = options.topP;
-		}
-		if (options.frequencyPenalty !== undefined) {
-			requestBody.frequency_penalty = options.frequencyPenalty;
-		}
-		if (options.presencePenalty !== undefined) {
-			requestBody.presence_penalty = options.presencePenalty;
-		}
-		if (options.stop) {
-			requestBody.stop = options.stop;
-		}
+		const requestBody = this.buildRequestBody(options);
 
 		try {
 			const startTime = Date.now();
 			
-			const response = await requestUrl({
-				url: `${baseUrl}/chat/completions`,
+			const response = await this.request({
+				url: this.getEndpointUrl('chat/completions', requestBody.model),
 				method: 'POST',
-				headers: {
-					'Authorization': `Bearer ${apiKey}`,
-					'Content-Type': 'application/json',
-				},
+				headers,
 				body: JSON.stringify(requestBody),
-			});
+			}, options.abortSignal);
 
 			const data = response.json as OpenAIChatResponse;
 			const endTime = Date.now();
@@ -297,14 +324,14 @@ export class OpenAIProvider extends LLMProvider {
 				throw new Error('No response choices returned');
 			}
 
-			const text = choice.message.content;
+			const text = choice.message.content ?? '';
 			const usage = data.usage;
 
 			// Calculate tokens/second for performance logging
 			const tokensPerSecond = usage.completion_tokens / (durationMs / 1000);
 
 			console.debug(
-				`OpenAI completion: ${usage.completion_tokens} tokens in ${durationMs}ms (${tokensPerSecond.toFixed(1)} tok/s)`
+				`${this.name} completion: ${usage.completion_tokens} tokens in ${durationMs}ms (${tokensPerSecond.toFixed(1)} tok/s)`
 			);
 
 			return {
@@ -316,87 +343,313 @@ export class OpenAIProvider extends LLMProvider {
 					completion: usage.completion_tokens,
 					total: usage.total_tokens,
 				},
+				finishReason: this.mapFinishReason(choice.finish_reason),
+				...(choice.message.tool_calls?.length && {
+					toolCalls: fromOpenAIToolCalls(choice.message.tool_calls, { provider: this.id, model: data.model }),
+				}),
 			};
 		} catch (error: unknown) {
-			if (error instanceof Error) {
-				// Check for specific error codes
-				if (error.message.includes('401')) {
-					throw new Error('Invalid API key. Please check your OpenAI API key.');
-				} else if (error.message.includes('429')) {
-					throw new Error('Rate limit exceeded. Please try again later.');
-				} else if (error.message.includes('402') || error.message.includes('insufficient_quota')) {
-					throw new Error('Insufficient quota. Please add credits to your OpenAI account.');
-				} else if (error.message.includes('503')) {
-					throw new Error('Service unavailable. OpenAI may be experiencing issues.');
+			throw this.toProviderError(error, requestBody.model);
+		}
+	}
+
+	/**
+	 * Stream completion via server-sent events from /chat/completions
+	 */
+	async *stream(options: StreamOptions): AsyncGenerator<string, void, unknown> {
+		const headers = this.getHeaders();
+
+		const requestBody: OpenAIChatRequest = {
+			...this.buildRequestBody(options),
+			stream: true,
+			...(this.supportsStreamOptions && { stream_options: { include_usage: true } }),
+		};
+
+		let text = '';
+		let model = requestBody.model;
+		let finishReason: string | null = null;
+		const toolCalls: OpenAIToolCall[] = [];
+		let usage: OpenAIChatStreamChunk['usage'] = null;
+		const startTime = Date.now();
+
+		try {
+			const response = await streamRequest({
+				url: this.getEndpointUrl('chat/completions', requestBody.model),
+				method: 'POST',
+				headers,
+				body: JSON.stringify(requestBody),
+			}, this.getRequestPolicy(options.abortSignal));
+
+			// Response body is guaranteed by streamRequest
+			const body = response.body as ReadableStream<Uint8Array>;
+
+			for await (const event of parseServerSentEvents(readLines(body))) {
+				if (event.data === '[DONE]') {
+					break;
+				}
+
+				const chunk = JSON.parse(event.data) as OpenAIChatStreamChunk;
+				if (chunk.error) {
+					throw new ProviderError(
+						`${this.name} stream failed: ${`${chunk.error.code ?? ''} ${chunk.error.message}`.trim()}`,
+						{ provider: this.id, model }
+					);
+				}
+
+				model = chunk.model || model;
+				if (chunk.usage) {
+					usage = chunk.usage;
+				}
+
+				// The final usage chunk has no choices
+				const choice = chunk.choices[0];
+				if (!choice) {
+					continue;
+				}
+				if (choice.finish_reason) {
+					finishReason = choice.finish_reason;
+				}
+
+				if (choice.delta.tool_calls) {
+					mergeToolCallDeltas(toolCalls, choice.delta.tool_calls);
+				}
+
+				const delta = choice.delta.content;
+				if (delta) {
+					text += delta;
+					options.onChunk?.(delta);
+					yield delta;
 				}
-				throw new Error(`OpenAI request failed: ${error.message}`);
 			}
-			throw new Error('OpenAI request failed: Unknown error');
+		} catch (error: unknown) {
+			const requestError = this.toProviderError(error, model);
+			options.onError?.(requestError);
+			throw requestError;
+		}
+
+		const durationMs = Date.now() - startTime;
+		const completionTokens = usage?.completion_tokens ?? 0;
+		console.debug(
+			`${this.name} stream: ${completionTokens} tokens in ${durationMs}ms ` +
+			`(${(completionTokens / (durationMs / 1000)).toFixed(1)} tok/s)`
+		);
+
+		const result: CompletionResult = {
+			text,
+			model,
+			provider: this.id,
+			tokens: {
+				prompt: usage?.prompt_tokens ?? 0,
+				completion: completionTokens,
+				total: usage?.total_tokens ?? 0,
+			},
+			finishReason: this.mapFinishReason(finishReason),
+		};
+		if (toolCalls.length > 0) {
+			result.toolCalls = fromOpenAIToolCalls(toolCalls, { provider: this.id, model });
 		}
+
+		options.onComplete?.(result);
 	}
 
 	/**
-	 * Stream completion (simulated)
-	 * NOTE: Obsidian's requestUrl doesn't support streaming responses
-	 * Falls back to non-streaming complete() and simulates streaming by yielding words
+	 * Build the chat request body shared by complete() and stream()
 	 */
-	async *stream(options: StreamOptions): AsyncGenerator<string, void, unknown> {
-		// Fall back to non-streaming and simulate streaming
-		// This is a limitation of Obsidian's requestUrl API
-		const result = await this.complete(options);
-		
-		// Simulate streaming by yielding word by word
-		const words = result.text.split(/\s+/);
-		for (const word of words) {
-			yield word + ' ';
+	private buildRequestBody(options: CompletionOptions): OpenAIChatRequest {
+		// Build messages array (system, history, prompt)
+		// JSON mode without a schema requires the word "JSON" in the messages
+		const jsonMode = !!options.responseFormat && !options.responseFormat.schema;
+		const messages = this.buildMessages(jsonMode ? this.withJsonInstruction(options) : options)
+			.map(message => this.toApiMessage(message));
+
+		const requestBody: OpenAIChatRequest = {
+			model: options.model ?? this.config.defaultModel ?? this.defaultChatModel,
+			messages,
+		};
+
+		// Add optional parameters
+		if (options.temperature !== undefined) {
+			requestBody.temperature = options.temperature;
+		}
+		if (options.maxTokens !== undefined) {
+			requestBody.max_tokens = options.maxTokens;
+		}
+		if (options.topP !== undefined) {
+			requestBody.top_p = options.topP;
+		}
+		if (options.frequencyPenalty !== undefined) {
+			requestBody.frequency_penalty = options.frequencyPenalty;
+		}
+		if (options.presencePenalty !== undefined) {
+			requestBody.presence_penalty = options.presencePenalty;
+		}
+		if (options.stop) {
+			requestBody.stop = options.stop;
+		}
+		if (options.tools?.length) {
+			requestBody.tools = toOpenAITools(options.tools);
+			if (options.toolChoice) {
+				requestBody.tool_choice = toOpenAIToolChoice(options.toolChoice);
+			}
 		}
-		
-		// Call onComplete callback if provided
-		if (options.onComplete) {
-			options.onComplete(result);
+		if (options.responseFormat) {
+			const { schema, name } = options.responseFormat;
+			requestBody.response_format = schema
+				? { type: 'json_schema', json_schema: { name: name ?? 'response', schema } }
+				: { type: 'json_object' };
 		}
+
+		return requestBody;
 	}
 
 	/**
-	 * Generate embeddings using OpenAI
+	 * Convert a message to the chat completions format
 	 */
-	async embeddings(text: string, options?: { model?: string }): Promise<number[]> {
-		const baseUrl = this.config.baseUrl ?? 'https://api.openai.com/v1';
-		const apiKey = this.config.apiKey;
+	private toApiMessage(message: ChatMessage): OpenAIMessage {
+		const apiMessage: OpenAIMessage = {
+			role: message.role,
+			// Images go in content parts next to the text
+			content: message.images?.length
+				? [
+					{ type: 'text', text: message.content },
+					...message.images.map((image): OpenAIMessagePart => ({
+						type: 'image_url',
+						image_url: { url: toDataUrl(image) },
+					})),
+				]
+				: message.content,
+		};
+
+		if (message.toolCalls?.length) {
+			apiMessage.tool_calls = toOpenAIToolCalls(message.toolCalls);
+			// Tool-only turns have no text
+			apiMessage.content = message.content || null;
+		}
+		if (message.toolCallId) {
+			apiMessage.tool_call_id = message.toolCallId;
+		}
+
+		return apiMessage;
+	}
+
+	/**
+	 * Model used when neither the request nor the config names one
+	 */
+	protected get defaultChatModel(): string {
+		return 'gpt-3.5-turbo';
+	}
 
+	protected get defaultEmbeddingModel(): string {
+		return 'text-embedding-ada-002';
+	}
+
+	/**
+	 * Whether the API accepts stream_options (for usage in the last stream chunk)
+	 * APIs that reject it should send usage on their own.
+	 */
+	protected get supportsStreamOptions(): boolean {
+		return true;
+	}
+
+	/**
+	 * Base URL of the API, without trailing slash
+	 */
+	protected get apiBaseUrl(): string {
+		return this.config.baseUrl ?? 'https://api.openai.com/v1';
+	}
+
+	/**
+	 * URL of a chat completions or embeddings request for a model
+	 */
+	protected getEndpointUrl(path: 'chat/completions' | 'embeddings', _model: string): string {
+		return `${this.apiBaseUrl}/${path}`;
+	}
+
+	/**
+	 * Request headers for the OpenAI API
+	 * @throws ProviderNotConfiguredError if the API key is missing
+	 */
+	protected getHeaders(): Record<string, string> {
+		const apiKey = this.config.apiKey;
 		if (!apiKey) {
-			throw new Error('OpenAI API key is required');
+			throw new ProviderNotConfiguredError('OpenAI API key is required', { provider: this.id });
+		}
+		return {
+			'Authorization': `Bearer ${apiKey}`,
+			'Content-Type': 'application/json',
+		};
+	}
+
+	/**
+	 * Map an OpenAI finish reason to CompletionResult.finishReason
+	 */
+	private mapFinishReason(reason: string | null | undefined): CompletionResult['finishReason'] {
+		if (reason === 'stop') {
+			return 'stop';
 		}
+		if (reason === 'length') {
+			return 'length';
+		}
+		if (reason === 'tool_calls') {
+			return 'tool_calls';
+		}
+		if (reason === 'content_filter') {
+			return 'content_filter';
+		}
+		return undefined;
+	}
+
+
+	/**
+	 * OpenAI accepts up to 2048 inputs per embeddings request
+	 */
+	get maxEmbeddingBatchSize(): number {
+		return 2048;
+	}
+
+	/**
+	 * Generate embeddings for a batch of texts via /embeddings
+	 */
+	async embed(input: string[], options: ProviderEmbeddingOptions = {}): Promise<ProviderEmbeddingResult> {
+		const headers = this.getHeaders();
 
 		// Use specified model or default embedding model
-		const model = options?.model ?? 'text-embedding-ada-002';
+		const model = options.model ?? this.defaultEmbeddingModel;
 
 		try {
-			const response = await requestUrl({
-				url: `${baseUrl}/embeddings`,
+			const response = await this.request({
+				url: this.getEndpointUrl('embeddings', model),
 				method: 'POST',
-				headers: {
-					'Authorization': `Bearer ${apiKey}`,
-					'Content-Type': 'application/json',
-				},
+				headers,
 				body: JSON.stringify({
 					model,
-					input: text,
+					input,
 				}),
-			});
+			}, options.abortSignal);
 
-			const data = response.json as { data: Array<{ embedding: number[] }> };
-			
-			if (!data.data || !data.data[0]) {
-				throw new Error('No embedding returned');
+			const data = response.json as OpenAIEmbeddingResponse;
+
+			if (!data.data || data.data.length !== input.length) {
+				throw new Error(`Expected ${input.length} embeddings, got ${data.data?.length ?? 0}`);
 			}
 
-			return data.data[0].embedding;
+			// Entries carry their input index - don't rely on response order
+			const embeddings = [...data.data]
+				.sort((a, b) => a.index - b.index)
+				.map(entry => entry.embedding);
+
+			return {
+				embeddings,
+				dimensions: embeddings[0]?.length ?? 0,
+				model: data.model ?? model,
+				provider: this.id,
+				tokens: {
+					prompt: data.usage?.prompt_tokens ?? 0,
+					total: data.usage?.total_tokens ?? 0,
+				},
+			};
 		} catch (error: unknown) {
-			if (error instanceof Error) {
-				throw new Error(`Failed to generate embeddings: ${error.message}`);
-			}
-			throw new Error('Failed to generate embeddings: Unknown error');
+			throw this.toProviderError(error, model);
 		}
 	}
 }
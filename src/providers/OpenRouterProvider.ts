@@ -1,12 +1,26 @@
 import { LLMProvider } from './LLMProvider';
-import { requestUrl } from 'obsidian';
+import { ProviderError, ProviderNotConfiguredError } from '../errors';
+import { toDataUrl } from '../utils/images';
+import {
+	fromOpenAIToolCalls,
+	mergeToolCallDeltas,
+	toOpenAIToolCalls,
+	toOpenAIToolChoice,
+	toOpenAITools,
+} from '../utils/tools';
+import type { OpenAITool, OpenAIToolCall, OpenAIToolCallDelta, OpenAIToolChoice } from '../utils/tools';
+import { streamRequest, readLines, parseServerSentEvents } from '../utils/streaming';
 import type {
+	ChatMessage,
 	CompletionOptions,
+	JsonSchema,
 	CompletionResult,
 	StreamOptions,
 	Model,
 	ModelTag,
 	ConnectionResult,
+	ProviderEmbeddingResult,
+	ProviderEmbeddingOptions,
 } from '../types';
 
 /**
@@ -31,6 +45,7 @@ interface OpenRouterModel {
 		input_modalities?: string[];
 		output_modalities?: string[];
 	};
+	supported_parameters?: string[];
 	top_provider: {
 		context_length?: number | null;
 		max_completion_tokens?: number | null;
@@ -39,10 +54,16 @@ interface OpenRouterModel {
 }
 
 interface OpenRouterMessage {
-	role: 'system' | 'user' | 'assistant';
-	content: string;
+	role: 'system' | 'user' | 'assistant' | 'tool';
+	content: string | OpenRouterMessagePart[] | null;
+	tool_calls?: OpenAIToolCall[];
+	tool_call_id?: string;
 }
 
+type OpenRouterMessagePart =
+	| { type: 'text'; text: string }
+	| { type: 'image_url'; image_url: { url: string } };
+
 interface OpenRouterChatRequest {
 	model: string;
 	messages: OpenRouterMessage[];
@@ -52,6 +73,15 @@ interface OpenRouterChatRequest {
 	frequency_penalty?: number;
 	presence_penalty?: number;
 	stop?: string[];
+	stream?: boolean;
+	stream_options?: {
+		include_usage: boolean;
+	};
+	tools?: OpenAITool[];
+	tool_choice?: OpenAIToolChoice;
+	response_format?:
+		| { type: 'json_object' }
+		| { type: 'json_schema'; json_schema: { name: string; schema: JsonSchema } };
 }
 
 interface OpenRouterChatResponse {
@@ -63,7 +93,8 @@ interface OpenRouterChatResponse {
 		index: number;
 		message: {
 			role: string;
-			content: string;
+			content: string | null;
+			tool_calls?: OpenAIToolCall[];
 		};
 		finish_reason: string;
 	}>;
@@ -74,6 +105,41 @@ interface OpenRouterChatResponse {
 	};
 }
 
+interface OpenRouterChatStreamChunk {
+	id: string;
+	model: string;
+	choices: Array<{
+		index: number;
+		delta: {
+			role?: string;
+			content?: string | null;
+			tool_calls?: OpenAIToolCallDelta[];
+		};
+		finish_reason: string | null;
+	}>;
+	usage?: {
+		prompt_tokens: number;
+		completion_tokens: number;
+		total_tokens: number;
+	} | null;
+	error?: {
+		message: string;
+		code?: number | string;
+	};
+}
+
+interface OpenRouterEmbeddingResponse {
+	model?: string;
+	data: Array<{
+		index: number;
+		embedding: number[];
+	}>;
+	usage?: {
+		prompt_tokens: number;
+		total_tokens: number;
+	};
+}
+
 /**
  * OpenRouter provider implementation
  * Unified API for 200+ AI models from various providers
@@ -126,17 +192,14 @@ export class OpenRouterProvider extends LLMProvider {
 		const apiKey = this.config.apiKey;
 
 		if (!apiKey) {
-			throw new Error('OpenRouter API key is required');
+			throw new ProviderNotConfiguredError('OpenRouter API key is required', { provider: this.id });
 		}
 
 		try {
-			const response = await requestUrl({
+			const response = await this.request({
 				url: `${baseUrl}/models`,
 				method: 'GET',
-				headers: {
-					'Authorization': `Bearer ${apiKey}`,
-					'Content-Type': 'application/json',
-				},
+				headers: this.getHeaders(apiKey),
 			});
 
 			const data = response.json as { data: OpenRouterModel[] };
@@ -182,6 +245,7 @@ export class OpenRouterProvider extends LLMProvider {
 
 		// Infer speed tier from pricing (lower cost = usually faster/smaller model)
 		const promptPrice = parseFloat(orModel.pricing.prompt);
+		const completionPrice = parseFloat(orModel.pricing.completion);
 		if (promptPrice < 0.10) {
 			tags.push('fast');
 		} else if (promptPrice > 5.0) {
@@ -194,10 +258,18 @@ export class OpenRouterProvider extends LLMProvider {
 			provider: this.id,
 			contextWindow: orModel.context_length || orModel.top_provider.context_length || 4096,
 			tags,
-			capabilities: architecture.output_modalities || ['text'],
+			capabilities: [
+				...(architecture.output_modalities || ['text']),
+				...(orModel.supported_parameters?.includes('tools') ? ['tools'] : []),
+			],
 			costPerToken: {
-				prompt: parseFloat(orModel.pricing.prompt),
-				completion: parseFloat(orModel.pricing.completion),
+				prompt: promptPrice,
+				completion: completionPrice,
+			},
+			// OpenRouter lists USD per token
+			pricePerMillion: {
+				prompt: promptPrice * 1e6,
+				completion: completionPrice * 1e6,
 			},
 		};
 	}
@@ -210,64 +282,20 @@ export class OpenRouterProvider extends LLMProvider {
 		const apiKey = this.config.apiKey;
 
 		if (!apiKey) {
-			throw new Error('OpenRouter API key is required');
-		}
-
-		// Build messages array
-		const messages: OpenRouterMessage[] = [];
-		
-		if (options.systemPrompt) {
-			messages.push({
-				role: 'system',
-				content: options.systemPrompt,
-			});
+			throw new ProviderNotConfiguredError('OpenRouter API key is required', { provider: this.id });
 		}
 
-		messages.push({
-			role: 'user',
-			content: options.prompt,
-		});
-
-		// Build request body
-		const requestBody: OpenRouterChatRequest = {
-			model: options.model ?? this.config.defaultModel ?? 'openai/gpt-3.5-turbo',
-			messages,
-		};
-
-		// Add optional parameters
-		if (options.temperature !== undefined) {
-			requestBody.temperature = options.temperature;
-		}
-		if (options.maxTokens !== undefined) {
-			requestBody.max_tokens = options.maxTokens;
-		}
-		if (options.topP !== undefined) {
-			requestBody.top_p = options.topP;
-		}
-		if (options.frequencyPenalty !== undefined) {
-			requestBody.frequency_penalty = options.frequencyPenalty;
-		}
-		if (options.presencePenalty !== undefined) {
-			requestBody.presence_penalty = options.presencePenalty;
-		}
-		if (options.stop) {
-			requestBody.stop = options.stop;
-		}
+		const requestBody = this.buildRequestBody(options);
 
 		try {
 			const startTime = Date.now();
 			
-			const response = await requestUrl({
+			const response = await this.request({
 				url: `${baseUrl}/chat/completions`,
 				method: 'POST',
-				headers: {
-					'Authorization': `Bearer ${apiKey}`,
-					'Content-Type': 'application/json',
-					'HTTP-Referer': 'https://obsidian.md', // Optional: for OpenRouter analytics
-					'X-Title': 'Obsidian LLM Connector', // Optional: for OpenRouter analytics
-				},
+				headers: this.getHeaders(apiKey),
 				body: JSON.stringify(requestBody),
-			});
+			}, options.abortSignal);
 
 			const data = response.json as OpenRouterChatResponse;
 			const endTime = Date.now();
@@ -279,7 +307,7 @@ export class OpenRouterProvider extends LLMProvider {
 				throw new Error('No response choices returned');
 			}
 
-			const text = choice.message.content;
+			const text = choice.message.content ?? '';
 			const usage = data.usage;
 
 			// Calculate tokens/second for performance logging
@@ -298,88 +326,284 @@ export class OpenRouterProvider extends LLMProvider {
 					completion: usage.completion_tokens,
 					total: usage.total_tokens,
 				},
+				finishReason: this.mapFinishReason(choice.finish_reason),
+				...(choice.message.tool_calls?.length && {
+					toolCalls: fromOpenAIToolCalls(choice.message.tool_calls, { provider: this.id, model: data.model }),
+				}),
 			};
 		} catch (error: unknown) {
-			if (error instanceof Error) {
-				// Check for specific error codes
-				if (error.message.includes('401')) {
-					throw new Error('Invalid API key. Please check your OpenRouter API key.');
-				} else if (error.message.includes('429')) {
-					throw new Error('Rate limit exceeded. Please try again later.');
-				} else if (error.message.includes('402')) {
-					throw new Error('Insufficient credits. Please add credits to your OpenRouter account.');
-				} else if (error.message.includes('503')) {
-					throw new Error('Service unavailable. The model provider may be down.');
+			throw this.toProviderError(error, requestBody.model);
+		}
+	}
+
+	/**
+	 * Stream completion via server-sent events from /chat/completions
+	 */
+	async *stream(options: StreamOptions): AsyncGenerator<string, void, unknown> {
+		const baseUrl = this.config.baseUrl ?? 'https://openrouter.ai/api/v1';
+		const apiKey = this.config.apiKey;
+
+		if (!apiKey) {
+			throw new ProviderNotConfiguredError('OpenRouter API key is required', { provider: this.id });
+		}
+
+		const requestBody: OpenRouterChatRequest = {
+			...this.buildRequestBody(options),
+			stream: true,
+			stream_options: { include_usage: true },
+		};
+
+		let text = '';
+		let model = requestBody.model;
+		let finishReason: string | null = null;
+		const toolCalls: OpenAIToolCall[] = [];
+		let usage: OpenRouterChatStreamChunk['usage'] = null;
+		const startTime = Date.now();
+
+		try {
+			const response = await streamRequest({
+				url: `${baseUrl}/chat/completions`,
+				method: 'POST',
+				headers: this.getHeaders(apiKey),
+				body: JSON.stringify(requestBody),
+			}, this.getRequestPolicy(options.abortSignal));
+
+			// Response body is guaranteed by streamRequest
+			const body = response.body as ReadableStream<Uint8Array>;
+
+			for await (const event of parseServerSentEvents(readLines(body))) {
+				if (event.data === '[DONE]') {
+					break;
+				}
+
+				const chunk = JSON.parse(event.data) as OpenRouterChatStreamChunk;
+				if (chunk.error) {
+					throw new ProviderError(
+						`OpenRouter stream failed: ${`${chunk.error.code ?? ''} ${chunk.error.message}`.trim()}`,
+						{ provider: this.id, model }
+					);
+				}
+
+				model = chunk.model || model;
+				if (chunk.usage) {
+					usage = chunk.usage;
+				}
+
+				// The final usage chunk has no choices
+				const choice = chunk.choices[0];
+				if (!choice) {
+					continue;
+				}
+				if (choice.finish_reason) {
+					finishReason = choice.finish_reason;
+				}
+
+				if (choice.delta.tool_calls) {
+					mergeToolCallDeltas(toolCalls, choice.delta.tool_calls);
+				}
+
+				const delta = choice.delta.content;
+				if (delta) {
+					text += delta;
+					options.onChunk?.(delta);
+					yield delta;
 				}
-				throw new Error(`OpenRouter request failed: ${error.message}`);
 			}
-			throw new Error('OpenRouter request failed: Unknown error');
+		} catch (error: unknown) {
+			const requestError = this.toProviderError(error, model);
+			options.onError?.(requestError);
+			throw requestError;
 		}
+
+		const durationMs = Date.now() - startTime;
+		const completionTokens = usage?.completion_tokens ?? 0;
+		console.debug(
+			`OpenRouter stream: ${completionTokens} tokens in ${durationMs}ms ` +
+			`(${(completionTokens / (durationMs / 1000)).toFixed(1)} tok/s)`
+		);
+
+		const result: CompletionResult = {
+			text,
+			model,
+			provider: this.id,
+			tokens: {
+				prompt: usage?.prompt_tokens ?? 0,
+				completion: completionTokens,
+				total: usage?.total_tokens ?? 0,
+			},
+			finishReason: this.mapFinishReason(finishReason),
+		};
+		if (toolCalls.length > 0) {
+			result.toolCalls = fromOpenAIToolCalls(toolCalls, { provider: this.id, model });
+		}
+
+		options.onComplete?.(result);
 	}
 
 	/**
-	 * Stream completion (simulated)
-	 * NOTE: Obsidian's requestUrl doesn't support streaming responses
-	 * Falls back to non-streaming complete() and simulates streaming by yielding words
+	 * Build the chat request body shared by complete() and stream()
 	 */
-	async *stream(options: StreamOptions): AsyncGenerator<string, void, unknown> {
-		// Fall back to non-streaming and simulate streaming
-		// This is a limitation of Obsidian's requestUrl API
-		const result = await this.complete(options);
-		
-		// Simulate streaming by yielding word by word
-		const words = result.text.split(/\s+/);
-		for (const word of words) {
-			yield word + ' ';
+	private buildRequestBody(options: CompletionOptions): OpenRouterChatRequest {
+		// Build messages array (system, history, prompt)
+		// JSON mode without a schema requires the word "JSON" in the messages
+		const jsonMode = !!options.responseFormat && !options.responseFormat.schema;
+		const messages = this.buildMessages(jsonMode ? this.withJsonInstruction(options) : options)
+			.map(message => this.toApiMessage(message));
+
+		const requestBody: OpenRouterChatRequest = {
+			model: options.model ?? this.config.defaultModel ?? 'openai/gpt-3.5-turbo',
+			messages,
+		};
+
+		// Add optional parameters
+		if (options.temperature !== undefined) {
+			requestBody.temperature = options.temperature;
+		}
+		if (options.maxTokens !== undefined) {
+			requestBody.max_tokens = options.maxTokens;
+		}
+		if (options.topP !== undefined) {
+			requestBody.top_p = options.topP;
+		}
+		if (options.frequencyPenalty !== undefined) {
+			requestBody.frequency_penalty = options.frequencyPenalty;
+		}
+		if (options.presencePenalty !== undefined) {
+			requestBody.presence_penalty = options.presencePenalty;
+		}
+		if (options.stop) {
+			requestBody.stop = options.stop;
+		}
+		if (options.tools?.length) {
+			requestBody.tools = toOpenAITools(options.tools);
+			if (options.toolChoice) {
+				requestBody.tool_choice = toOpenAIToolChoice(options.toolChoice);
+			}
 		}
-		
-		// Call onComplete callback if provided
-		if (options.onComplete) {
-			options.onComplete(result);
+		if (options.responseFormat) {
+			const { schema, name } = options.responseFormat;
+			requestBody.response_format = schema
+				? { type: 'json_schema', json_schema: { name: name ?? 'response', schema } }
+				: { type: 'json_object' };
 		}
+
+		return requestBody;
+	}
+
+	/**
+	 * Convert a message to the chat completions format
+	 */
+	private toApiMessage(message: ChatMessage): OpenRouterMessage {
+		const apiMessage: OpenRouterMessage = {
+			role: message.role,
+			// Images go in content parts next to the text
+			content: message.images?.length
+				? [
+					{ type: 'text', text: message.content },
+					...message.images.map((image): OpenRouterMessagePart => ({
+						type: 'image_url',
+						image_url: { url: toDataUrl(image) },
+					})),
+				]
+				: message.content,
+		};
+
+		if (message.toolCalls?.length) {
+			apiMessage.tool_calls = toOpenAIToolCalls(message.toolCalls);
+			// Tool-only turns have no text
+			apiMessage.content = message.content || null;
+		}
+		if (message.toolCallId) {
+			apiMessage.tool_call_id = message.toolCallId;
+		}
+
+		return apiMessage;
+	}
+
+	/**
+	 * Request headers for the OpenRouter API
+	 */
+	private getHeaders(apiKey: string): Record<string, string> {
+		return {
+			'Authorization': `Bearer ${apiKey}`,
+			'Content-Type': 'application/json',
+			'HTTP-Referer': 'https://obsidian.md', // Optional: for OpenRouter analytics
+			'X-Title': 'Obsidian LLM Connector', // Optional: for OpenRouter analytics
+		};
+	}
+
+	/**
+	 * Map an OpenRouter finish reason to CompletionResult.finishReason
+	 */
+	private mapFinishReason(reason: string | null | undefined): CompletionResult['finishReason'] {
+		if (reason === 'stop') {
+			return 'stop';
+		}
+		if (reason === 'length') {
+			return 'length';
+		}
+		if (reason === 'tool_calls') {
+			return 'tool_calls';
+		}
+		return undefined;
+	}
+
+
+	/**
+	 * Conservative limit - upstream providers behind OpenRouter differ
+	 */
+	get maxEmbeddingBatchSize(): number {
+		return 256;
 	}
 
 	/**
-	 * Generate embeddings
-	 * NOTE: OpenRouter supports embeddings through specific embedding models
+	 * Generate embeddings for a batch of texts via /embeddings
 	 */
-	async embeddings(text: string, options?: { model?: string }): Promise<number[]> {
+	async embed(input: string[], options: ProviderEmbeddingOptions = {}): Promise<ProviderEmbeddingResult> {
 		const baseUrl = this.config.baseUrl ?? 'https://openrouter.ai/api/v1';
 		const apiKey = this.config.apiKey;
 
 		if (!apiKey) {
-			throw new Error('OpenRouter API key is required');
+			throw new ProviderNotConfiguredError('OpenRouter API key is required', { provider: this.id });
 		}
 
 		// Use specified model or default embedding model
-		const model = options?.model ?? 'openai/text-embedding-ada-002';
+		const model = options.model ?? 'openai/text-embedding-ada-002';
 
 		try {
-			const response = await requestUrl({
+			const response = await this.request({
 				url: `${baseUrl}/embeddings`,
 				method: 'POST',
-				headers: {
-					'Authorization': `Bearer ${apiKey}`,
-					'Content-Type': 'application/json',
-				},
+				headers: this.getHeaders(apiKey),
 				body: JSON.stringify({
 					model,
-					input: text,
+					input,
 				}),
-			});
+			}, options.abortSignal);
 
-			const data = response.json as { data: Array<{ embedding: number[] }> };
-			
-			if (!data.data || !data.data[0]) {
-				throw new Error('No embedding returned');
+			const data = response.json as OpenRouterEmbeddingResponse;
+
+			if (!data.data || data.data.length !== input.length) {
+				throw new Error(`Expected ${input.length} embeddings, got ${data.data?.length ?? 0}`);
 			}
 
-			return data.data[0].embedding;
+			// Entries carry their input index - don't rely on response order
+			const embeddings = [...data.data]
+				.sort((a, b) => a.index - b.index)
+				.map(entry => entry.embedding);
+
+			return {
+				embeddings,
+				dimensions: embeddings[0]?.length ?? 0,
+				model: data.model ?? model,
+				provider: this.id,
+				tokens: {
+					prompt: data.usage?.prompt_tokens ?? 0,
+					total: data.usage?.total_tokens ?? 0,
+				},
+			};
 		} catch (error: unknown) {
-			if (error instanceof Error) {
-				throw new Error(`Failed to generate embeddings: ${error.message}`);
-			}
-			throw new Error('Failed to generate embeddings: Unknown error');
+			throw this.toProviderError(error, model);
 		}
 	}
 }
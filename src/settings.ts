@@ -15,11 +15,19 @@ export const DEFAULT_SETTINGS: LLMConnectorSettings = {
 		advanced: undefined,
 		thinking: undefined,
 		code: undefined,
+		vision: undefined,
 		embedding: undefined,
 	},
 	defaultTier: 'balanced',
 	fallbackNotification: 'console',
 	showOncePerSession: true,
+	fallbackOnError: true,
+	contextStrategy: 'drop_oldest',
+	embeddingIndexEnabled: false,
+	usageTrackingEnabled: true,
+	budgets: [],
+	pluginPermissions: {},
+	confirmNewPlugins: false,
 	modelCache: undefined,
 };
 
@@ -55,4 +63,31 @@ export const DEFAULT_PROVIDER_CONFIGS: Record<string, Partial<ProviderConfig>> =
 		timeout: 30000,
 		maxRetries: 3,
 	},
+	gemini: {
+		id: 'gemini',
+		enabled: false,
+		baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+		timeout: 30000,
+		maxRetries: 3,
+	},
+	mistral: {
+		id: 'mistral',
+		enabled: false,
+		baseUrl: 'https://api.mistral.ai/v1',
+		timeout: 30000,
+		maxRetries: 3,
+	},
+	groq: {
+		id: 'groq',
+		enabled: false,
+		baseUrl: 'https://api.groq.com/openai/v1',
+		timeout: 30000,
+		maxRetries: 3,
+	},
+	'azure-openai': {
+		id: 'azure-openai',
+		enabled: false,
+		timeout: 30000,
+		maxRetries: 3,
+	},
 };
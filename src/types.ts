@@ -7,15 +7,99 @@
  * - advanced: Maximum quality, slower
  * - thinking: Complex reasoning tasks
  * - code: Code generation/review
+ * - vision: Image understanding (falls back to multimodal models only)
  * - embedding: Vector embeddings (no fallback)
  */
-export type PerformanceTier = 'fast' | 'balanced' | 'advanced' | 'thinking' | 'code' | 'embedding';
+export type PerformanceTier = 'fast' | 'balanced' | 'advanced' | 'thinking' | 'code' | 'vision' | 'embedding';
+
+/**
+ * Role of a message in a conversation
+ * `tool` messages carry the result of a tool call back to the model.
+ */
+export type MessageRole = 'system' | 'user' | 'assistant' | 'tool';
+
+/**
+ * A JSON schema object (draft 2020-12 subset understood by the providers)
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * A function the model may call
+ */
+export interface ToolDefinition {
+	name: string;  // Letters, digits, _ and -, max 64 characters
+	description?: string;  // When and how to use the tool - the model relies on this
+	parameters?: JsonSchema;  // JSON schema of the arguments object; defaults to no arguments
+}
+
+/**
+ * Whether and which tool the model must call
+ * - auto: Model decides (default)
+ * - none: Model must answer with text
+ * - required: Model must call at least one tool
+ * - { name }: Model must call this tool
+ */
+export type ToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+/**
+ * Structured JSON output
+ * The connector parses the response, validates it against `schema` and
+ * retries with the validation errors when the output is invalid.
+ */
+export interface ResponseFormat {
+	type: 'json';
+	schema?: JsonSchema;  // Without a schema, any JSON object is accepted
+	name?: string;  // Schema name, sent to providers that require one (default: "response")
+	maxRetries?: number;  // Retries after invalid output (default: 2)
+}
+
+/**
+ * A tool call requested by the model
+ */
+export interface ToolCall {
+	id: string;  // Pass back as ChatMessage.toolCallId with the result
+	name: string;
+	arguments: Record<string, unknown>;
+}
+
+/**
+ * An image sent with a request
+ * Provide exactly one of `path` or `data`.
+ */
+export interface ImageAttachment {
+	path?: string;  // Vault path, e.g. "attachments/diagram.png"
+	data?: ArrayBuffer | string;  // Raw bytes, base64 or a data: URL
+	mimeType?: string;  // Inferred from the path extension or data URL; defaults to image/png
+}
+
+/**
+ * A single turn in a conversation
+ */
+export interface ChatMessage {
+	role: MessageRole;
+	content: string;
+	images?: ImageAttachment[];  // Images for user turns (requires a multimodal model)
+	toolCalls?: ToolCall[];  // Tool calls made by an assistant turn
+	toolCallId?: string;  // For tool turns: the call this message answers
+}
+
+/**
+ * What to do when a request exceeds the model's context window
+ * - drop_oldest: Remove the oldest conversation turns first
+ * - truncate_middle: Cut the middle out of the longest message
+ * - reject: Throw ContextLengthExceededError
+ */
+export type ContextStrategy = 'drop_oldest' | 'truncate_middle' | 'reject';
 
 /**
  * Completion request options
+ * Either `prompt` or `messages` (or both) must be provided.
+ * When both are given, `prompt` is appended as the final user turn.
  */
 export interface CompletionOptions {
-	prompt: string;
+	prompt?: string;
+	messages?: ChatMessage[];  // Conversation history (system/user/assistant turns)
+	images?: ImageAttachment[];  // Images attached to the prompt (routes to multimodal models)
 	tier?: PerformanceTier;  // Performance tier (preferred over model)
 	model?: string;  // Specific model name (overrides tier)
 	provider?: string;  // Specific provider to use
@@ -26,12 +110,25 @@ export interface CompletionOptions {
 	frequencyPenalty?: number;
 	presencePenalty?: number;
 	stop?: string[];
+	contextStrategy?: ContextStrategy;  // Overrides the context strategy from settings
+	abortSignal?: AbortSignal;  // Throws AbortError; streams are cancelled, complete() only stops waiting
+	tools?: ToolDefinition[];  // Functions the model may call (requires a model with tool support)
+	toolChoice?: ToolChoice;  // Defaults to 'auto'
+	responseFormat?: ResponseFormat;  // Request JSON output; the parsed value is returned as `data`
+	pluginId?: string;  // Set by forPlugin() clients; ignored when passed to the shared API
 }
 
 /**
  * Reason for tier fallback
  */
-export type FallbackReason = 'tier_not_configured' | 'provider_error' | 'rate_limit' | 'timeout' | 'model_unavailable';
+export type FallbackReason =
+	| 'tier_not_configured'
+	| 'provider_error'
+	| 'rate_limit'
+	| 'timeout'
+	| 'model_unavailable'
+	| 'budget_exceeded'
+	| 'permission_denied';
 
 /**
  * Completion result with metadata
@@ -45,7 +142,10 @@ export interface CompletionResult {
 		completion: number;
 		total: number;
 	};
-	finishReason?: 'stop' | 'length' | 'error';
+	finishReason?: 'stop' | 'length' | 'tool_calls' | 'content_filter' | 'error';  // content_filter: blocked by the provider's safety filters
+	toolCalls?: ToolCall[];  // Tool calls requested by the model (finishReason 'tool_calls')
+	data?: unknown;  // Parsed JSON when responseFormat was set
+	contextTrimmed?: boolean;  // True if the request was trimmed to fit the context window
 	// Tier fallback metadata
 	requestedTier?: PerformanceTier;
 	actualTier?: PerformanceTier;
@@ -62,6 +162,273 @@ export interface StreamOptions extends CompletionOptions {
 	onError?: (error: Error) => void;
 }
 
+/**
+ * Options for creating a conversation session
+ * Request options (tier, model, systemPrompt, ...) apply to every turn;
+ * `messages` seeds the initial history. Abort signals and stream callbacks
+ * belong to a single turn and are passed to send()/stream() instead.
+ */
+export type ConversationOptions = Omit<CompletionOptions, 'prompt' | 'abortSignal'>;
+
+/**
+ * Serialized conversation, safe to store in plugin data
+ */
+export interface SerializedConversation {
+	version: 1;
+	id: string;
+	createdAt: number;
+	updatedAt: number;
+	options: Omit<ConversationOptions, 'messages'>;
+	messages: ChatMessage[];
+}
+
+/**
+ * A tool the agent loop can execute
+ * The handler's return value is sent back to the model (strings as-is, anything else as JSON).
+ * Thrown errors are reported to the model as the tool result, so it can react.
+ */
+export interface AgentTool extends ToolDefinition {
+	handler: (args: Record<string, unknown>, call: ToolCall) => unknown;
+}
+
+/**
+ * Options for runAgent()
+ * Request options (tier, model, systemPrompt, ...) apply to every step.
+ */
+export interface AgentOptions extends Omit<CompletionOptions, 'tools'> {
+	tools: AgentTool[];
+	maxSteps?: number;  // Maximum model calls (default: 10)
+	onStep?: (step: AgentStep) => void;  // Called after each model call and its tool executions
+}
+
+/**
+ * Result of one executed tool call
+ */
+export interface AgentToolResult {
+	callId: string;
+	name: string;
+	content: string;  // What was sent back to the model
+	isError: boolean;  // True if the tool is unknown or its handler threw
+}
+
+/**
+ * One model call of an agent run, with the tools it triggered
+ */
+export interface AgentStep {
+	index: number;  // 0-based
+	result: CompletionResult;
+	toolResults: AgentToolResult[];
+}
+
+/**
+ * Result of an agent run
+ * - stop/length: The model gave a final answer (or hit maxTokens)
+ * - max_steps: maxSteps was reached while the model still requested tools
+ */
+export interface AgentResult {
+	text: string;  // Final answer (text of the last step)
+	finishReason: 'stop' | 'length' | 'max_steps';
+	steps: AgentStep[];
+	messages: ChatMessage[];  // Full history including tool calls and results
+	tokens: {
+		prompt: number;
+		completion: number;
+		total: number;
+	};  // Summed over all steps
+}
+
+/**
+ * Embedding request options
+ * Without `model` or `tier`, the embedding tier is used.
+ */
+export interface EmbeddingOptions {
+	input: string | string[];  // Texts to embed; vectors are returned in the same order
+	tier?: PerformanceTier;  // Defaults to 'embedding'
+	model?: string;  // Specific embedding model (overrides tier)
+	provider?: string;  // Specific provider to use
+	abortSignal?: AbortSignal;  // Throws AbortError; batches already sent still run on the provider
+	pluginId?: string;  // Set by forPlugin() clients; ignored when passed to the shared API
+}
+
+/**
+ * Embedding result with metadata
+ */
+export interface EmbeddingResult {
+	embeddings: number[][];  // One vector per input
+	dimensions: number;
+	model: string;
+	provider: string;
+	namespace: string;  // "provider:model" - vectors are only comparable within one namespace
+	tokens: {
+		prompt: number;
+		total: number;
+	};
+}
+
+/**
+ * Embedding result as returned by a provider (the router adds the namespace)
+ */
+export type ProviderEmbeddingResult = Omit<EmbeddingResult, 'namespace'>;
+
+/**
+ * The embedding model vectors belong to
+ */
+export interface EmbeddingNamespace {
+	id: string;  // "provider:model"
+	provider: string;
+	model: string;
+	dimensions?: number;  // Known once the model has produced a vector
+}
+
+/**
+ * Payload of the 'embedding-model-changed' event
+ */
+export interface EmbeddingModelChange {
+	previous: EmbeddingNamespace | null;
+	current: EmbeddingNamespace | null;  // null if the embedding tier was cleared
+}
+
+/**
+ * Events consumers can subscribe to with api.on()
+ */
+export interface ConnectorEventMap {
+	'embedding-model-changed': [change: EmbeddingModelChange];
+}
+
+/**
+ * Options passed to a provider for a single embedding batch
+ */
+export interface ProviderEmbeddingOptions {
+	model?: string;
+	abortSignal?: AbortSignal;
+}
+
+/**
+ * A note chunk returned by a similarity search
+ */
+export interface SimilarityResult {
+	path: string;  // Vault path of the note
+	text: string;  // Matching chunk of the note
+	score: number;  // Cosine similarity, higher is closer
+}
+
+/**
+ * State of the shared embedding index
+ */
+export interface EmbeddingIndexStatus {
+	enabled: boolean;
+	files: number;
+	chunks: number;
+	pending: number;  // Notes waiting to be (re-)embedded
+	namespace?: string;  // "provider:model" the stored vectors come from
+	lastError?: string;
+}
+
+/**
+ * One request in the usage ledger
+ */
+export interface UsageRecord {
+	timestamp: number;
+	pluginId: string;  // Calling plugin, "unknown" if it didn't identify itself
+	kind: 'completion' | 'embedding';
+	provider: string;
+	model: string;
+	requestedTier?: PerformanceTier;
+	tier?: PerformanceTier;  // Tier actually used
+	tokens: {
+		prompt: number;
+		completion: number;
+		total: number;
+	};
+	cost: number;  // USD, from Model.pricePerMillion; 0 for local models or unknown pricing
+	latencyMs: number;  // Until the full response was received
+	fallbackOccurred: boolean;
+	fallbackReason?: FallbackReason;
+}
+
+/**
+ * Filter for usage queries
+ * Time bounds are epoch milliseconds; `to` is exclusive.
+ */
+export interface UsageQuery {
+	from?: number;
+	to?: number;
+	pluginId?: string;  // Set by the API to the caller's plugin id (see getUsage())
+	provider?: string;
+	model?: string;
+	tier?: PerformanceTier;
+	groupBy?: 'plugin' | 'provider' | 'model' | 'tier' | 'day';
+}
+
+/**
+ * Aggregated usage
+ */
+export interface UsageTotals {
+	requests: number;
+	tokens: {
+		prompt: number;
+		completion: number;
+		total: number;
+	};
+	cost: number;  // USD
+	averageLatencyMs: number;
+	fallbacks: number;  // Requests served by a fallback tier
+}
+
+/**
+ * Result of a usage query
+ * `groups` is keyed by plugin id, provider, model, tier or day (YYYY-MM-DD, local time).
+ */
+export interface UsageSummary extends UsageTotals {
+	groups?: Record<string, UsageTotals>;
+}
+
+/**
+ * What happens to paid requests once a budget is used up
+ * - reject: throw BudgetExceededError
+ * - fallback_local: continue down the tier fallback chain to a free model, then to any
+ *   connected free model (local ones first)
+ */
+export type BudgetAction = 'reject' | 'fallback_local';
+
+/**
+ * Spending limit for a provider or a calling plugin
+ * Spending is the estimated cost from the usage ledger for the current
+ * day or calendar month (local time).
+ */
+export interface Budget {
+	id: string;
+	scope: 'provider' | 'plugin';
+	target: string;  // Provider ID or plugin manifest id
+	period: 'daily' | 'monthly';
+	limit: number;  // USD; paid requests are stopped once spending reaches it
+	warnAt: number;  // Fraction of the limit that triggers a warning (0-1), 0 to disable
+	action: BudgetAction;
+	enabled: boolean;
+}
+
+/**
+ * What a calling plugin may do, set by the user in settings
+ * Plugins get an entry on their first request.
+ */
+export interface PluginPermissions {
+	access: 'allowed' | 'blocked' | 'ask';  // 'ask': confirm on the next request
+	allowCloud: boolean;  // false: only providers on the user's machine or network (e.g. Ollama)
+	providers?: string[];  // Allowed provider IDs; all if empty
+	tiers?: PerformanceTier[];  // Allowed tiers; all if empty. Explicit model requests need all tiers allowed
+	firstSeen: number;
+}
+
+/**
+ * Current spending against a budget
+ */
+export interface BudgetStatus {
+	budget: Budget;
+	spent: number;  // USD in the current period
+	exceeded: boolean;
+	warning: boolean;  // Past warnAt but not exceeded
+}
+
 /**
  * Model capability tags
  */
@@ -78,7 +445,11 @@ export interface Model {
 	capabilities: string[];
 	contextWindow?: number;
 	maxTokens?: number;
-	costPerToken?: {
+	costPerToken?: {  // USD per token
+		prompt: number;
+		completion: number;
+	};
+	pricePerMillion?: {  // USD per million tokens, used for cost estimates
 		prompt: number;
 		completion: number;
 	};
@@ -131,6 +502,24 @@ export interface ProviderConfig {
 	defaultModel?: string;
 	timeout?: number;
 	maxRetries?: number;
+	options?: Record<string, string>;  // Values of custom config fields (see ProviderConfigField)
+	type?: 'openai-compatible';  // Set on user-added endpoints; built-in and plugin providers leave it unset
+	name?: string;  // Display name of a user-added endpoint
+	headers?: Record<string, string>;  // Extra request headers of a user-added endpoint
+	deployments?: Record<string, string>;  // Azure OpenAI: deployment name -> model ID it serves
+}
+
+/**
+ * Setting of a provider, rendered in the provider's section of the settings tab
+ * `apiKey`, `baseUrl` and `defaultModel` are stored on the ProviderConfig itself,
+ * any other key in `ProviderConfig.options`.
+ */
+export interface ProviderConfigField {
+	key: string;
+	name: string;
+	description?: string;
+	type: 'text' | 'password';
+	placeholder?: string;
 }
 
 /**
@@ -185,6 +574,7 @@ export interface LLMConnectorSettings {
 		advanced?: ModelAssignment;
 		thinking?: ModelAssignment;
 		code?: ModelAssignment;
+		vision?: ModelAssignment;
 		embedding?: ModelAssignment;
 	};
 	
@@ -196,6 +586,27 @@ export interface LLMConnectorSettings {
 	
 	// Show once-per-session notifications
 	showOncePerSession: boolean;
+
+	// Try the next tier in the fallback chain when a provider request fails
+	fallbackOnError: boolean;
+
+	// How to handle requests that exceed the model's context window
+	contextStrategy: ContextStrategy;
+
+	// Maintain a shared embedding index of vault notes
+	embeddingIndexEnabled: boolean;
+
+	// Record every request in the usage ledger
+	usageTrackingEnabled: boolean;
+
+	// Spending limits, enforced with costs from the usage ledger
+	budgets: Budget[];
+
+	// Access rules per calling plugin (manifest id)
+	pluginPermissions: Record<string, PluginPermissions>;
+
+	// Ask before a plugin uses the connector for the first time
+	confirmNewPlugins: boolean;
 	
 	// Cached models for offline use
 	modelCache?: ModelCache;
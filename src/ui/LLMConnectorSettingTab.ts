@@ -1,7 +1,17 @@
 import { App, PluginSettingTab, Setting, Notice } from 'obsidian';
 import type LLMConnectorPlugin from '../main';
-import type { PerformanceTier, NotificationMode } from '../types';
-import { ModelSelectorModal, getProviderDisplayName } from './ModelSelectorModal';
+import type {
+	PerformanceTier,
+	NotificationMode,
+	ContextStrategy,
+	UsageTotals,
+	Budget,
+	BudgetAction,
+	PluginPermissions,
+	ProviderConfig,
+	ProviderConfigField,
+} from '../types';
+import { ModelSelectorModal, getProviderDisplayName, setProviderDisplayName } from './ModelSelectorModal';
 
 /**
  * Settings tab for LLM Connector plugin
@@ -27,6 +37,21 @@ export class LLMConnectorSettingTab extends PluginSettingTab {
 
 		// Fallback Preferences Section
 		this.displayFallbackSection(containerEl);
+
+		// Context Window Section
+		this.displayContextSection(containerEl);
+
+		// Embedding Index Section
+		this.displayEmbeddingIndexSection(containerEl);
+
+		// Usage Section
+		this.displayUsageSection(containerEl);
+
+		// Budget Section
+		this.displayBudgetSection(containerEl);
+
+		// Plugin Access Section
+		this.displayPluginAccessSection(containerEl);
 	}
 
 	/**
@@ -149,6 +174,142 @@ export class LLMConnectorSettingTab extends PluginSettingTab {
 				},
 			],
 		});
+
+		// Gemini Provider
+		this.displayProvider(containerEl, {
+			id: 'gemini',
+			name: 'Google Gemini',
+			description: 'Gemini models from Google AI Studio',
+			fields: [
+				{
+					type: 'password',
+					key: 'apiKey',
+					name: 'API key',
+					placeholder: 'AIza...',
+				},
+				{
+					type: 'text',
+					key: 'baseUrl',
+					name: 'Base URL',
+					placeholder: 'https://generativelanguage.googleapis.com/v1beta',
+				},
+			],
+		});
+
+		// Mistral Provider
+		this.displayProvider(containerEl, {
+			id: 'mistral',
+			name: 'Mistral',
+			description: 'Mistral, Codestral and Pixtral models from Mistral AI',
+			fields: [
+				{
+					type: 'password',
+					key: 'apiKey',
+					name: 'API key',
+				},
+				{
+					type: 'text',
+					key: 'baseUrl',
+					name: 'Base URL',
+					placeholder: 'https://api.mistral.ai/v1',
+				},
+			],
+		});
+
+		// Groq Provider
+		this.displayProvider(containerEl, {
+			id: 'groq',
+			name: 'Groq',
+			description: 'Fast open-weight models on Groq',
+			fields: [
+				{
+					type: 'password',
+					key: 'apiKey',
+					name: 'API key',
+					placeholder: 'gsk_...',
+				},
+				{
+					type: 'text',
+					key: 'baseUrl',
+					name: 'Base URL',
+					placeholder: 'https://api.groq.com/openai/v1',
+				},
+			],
+		});
+
+		// Azure OpenAI Provider
+		this.displayProvider(containerEl, {
+			id: 'azure-openai',
+			name: 'Azure OpenAI',
+			description: 'OpenAI models deployed in your Azure resource',
+			fields: [
+				{
+					type: 'text',
+					key: 'baseUrl',
+					name: 'Endpoint',
+					description: 'Resource endpoint from the Azure portal (keys and endpoint)',
+					placeholder: 'https://my-resource.openai.azure.com',
+				},
+				{
+					type: 'password',
+					key: 'apiKey',
+					name: 'API key',
+				},
+				{
+					type: 'text',
+					key: 'apiVersion',
+					name: 'API version',
+					placeholder: '2024-10-21',
+				},
+			],
+			extraSettings: groupEl => this.displayAzureDeployments(groupEl),
+		});
+
+		// User-added OpenAI-compatible endpoints
+		for (const endpoint of this.plugin.getCompatibleProviderConfigs()) {
+			this.displayProvider(containerEl, {
+				id: endpoint.id,
+				name: endpoint.name ?? endpoint.id,
+				description: endpoint.baseUrl ?? 'OpenAI-compatible server',
+				fields: [
+					{
+						type: 'text',
+						key: 'baseUrl',
+						name: 'Base URL',
+						description: 'Address of the OpenAI-style API, usually ending in /v1',
+						placeholder: 'http://localhost:1234/v1',
+					},
+					{
+						type: 'password',
+						key: 'apiKey',
+						name: 'API key',
+						description: 'Leave empty if the server does not require one',
+					},
+				],
+				extraSettings: groupEl => this.displayCompatibleProviderSettings(groupEl, endpoint),
+				onRemove: () => this.plugin.removeCompatibleProvider(endpoint.id),
+			});
+		}
+
+		new Setting(containerEl)
+			.setName('Compatible servers')
+			.setDesc('Add a local or hosted server that offers the /v1/chat/completions endpoint. Add one entry per server.')
+			.addButton(button => button
+				.setButtonText('Add server')
+				.onClick(async () => {
+					await this.plugin.addCompatibleProvider();
+					this.display();
+				}));
+
+		// Providers added by other plugins
+		for (const factory of this.plugin.getCustomProviders()) {
+			this.displayProvider(containerEl, {
+				id: factory.id,
+				name: factory.name,
+				description: factory.description ?? 'Added by another plugin',
+				fields: factory.configFields ?? [],
+			});
+		}
 	}
 
 	/**
@@ -160,12 +321,9 @@ export class LLMConnectorSettingTab extends PluginSettingTab {
 			id: string;
 			name: string;
 			description: string;
-			fields: Array<{
-				type: 'text' | 'password';
-				key: string;
-				name: string;
-				placeholder: string;
-			}>;
+			fields: ProviderConfigField[];
+			extraSettings?: (groupEl: HTMLElement) => void;  // Rendered after the fields while enabled
+			onRemove?: () => Promise<void>;  // Shows a remove button for user-added providers
 		}
 	): void {
 		const providerConfig = this.plugin.settings.providers[config.id];
@@ -216,6 +374,17 @@ export class LLMConnectorSettingTab extends PluginSettingTab {
 					new Notice(`${config.name} ${value ? 'enabled' : 'disabled'}`);
 				}));
 
+		const onRemove = config.onRemove;
+		if (onRemove) {
+			toggleSetting.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip(`Remove ${config.name}`)
+				.onClick(async () => {
+					await onRemove();
+					this.display();
+				}));
+		}
+
 		// Add success indicator to toggle line if connected
 		if (isConnected) {
 			const statusSpan = toggleSetting.nameEl.createSpan({
@@ -232,16 +401,17 @@ export class LLMConnectorSettingTab extends PluginSettingTab {
 		if (isEnabled) {
 			// Render configuration fields
 			for (const field of config.fields) {
-				const fieldValue = providerConfig ? ((providerConfig as unknown as Record<string, string>)[field.key] ?? '') : '';
+				const fieldValue = providerConfig ? getConfigValue(providerConfig, field.key) : '';
 
 				new Setting(providerGroup)
 					.setName(field.name)
+					.setDesc(field.description ?? '')
 					.addText(text => {
 						if (field.type === 'password') {
 							text.inputEl.type = 'password';
 						}
 						text
-							.setPlaceholder(field.placeholder)
+							.setPlaceholder(field.placeholder ?? '')
 							.setValue(fieldValue)
 							.onChange(async (value) => {
 								if (!this.plugin.settings.providers[config.id]) {
@@ -252,7 +422,7 @@ export class LLMConnectorSettingTab extends PluginSettingTab {
 										maxRetries: 3,
 									};
 								}
-								(this.plugin.settings.providers[config.id] as unknown as Record<string, string>)[field.key] = value;
+								setConfigValue(this.plugin.settings.providers[config.id], field.key, value);
 								await this.plugin.saveSettings();
 
 								// Update provider manager config
@@ -261,6 +431,49 @@ export class LLMConnectorSettingTab extends PluginSettingTab {
 					});
 			}
 
+			config.extraSettings?.(providerGroup);
+
+			// Request policy (shared by all providers)
+			new Setting(providerGroup)
+				.setName('Timeout (seconds)')
+				.setDesc('How long to wait for a response before retrying or falling back')
+				.addText(text => {
+					text.inputEl.type = 'number';
+					text
+						.setPlaceholder('30')
+						.setValue(String((providerConfig?.timeout ?? 30000) / 1000))
+						.onChange(async (value) => {
+							const seconds = Number(value);
+							const provider = this.plugin.settings.providers[config.id];
+							if (!provider || !Number.isFinite(seconds) || seconds <= 0) {
+								return;
+							}
+							provider.timeout = Math.round(seconds * 1000);
+							await this.plugin.saveSettings();
+							this.plugin['providerManager']?.loadConfigs(this.plugin.settings.providers);
+						});
+				});
+
+			new Setting(providerGroup)
+				.setName('Max retries')
+				.setDesc('Retries for rate limits, overloaded servers and network errors (0 to disable)')
+				.addText(text => {
+					text.inputEl.type = 'number';
+					text
+						.setPlaceholder('3')
+						.setValue(String(providerConfig?.maxRetries ?? 3))
+						.onChange(async (value) => {
+							const retries = Number(value);
+							const provider = this.plugin.settings.providers[config.id];
+							if (!provider || !Number.isInteger(retries) || retries < 0) {
+								return;
+							}
+							provider.maxRetries = retries;
+							await this.plugin.saveSettings();
+							this.plugin['providerManager']?.loadConfigs(this.plugin.settings.providers);
+						});
+				});
+
 			// Action buttons (Test connection + Reload models)
 			const actionsSetting = new Setting(providerGroup)
 				.setName('Actions')
@@ -358,6 +571,68 @@ export class LLMConnectorSettingTab extends PluginSettingTab {
 		}
 	}
 
+	/**
+	 * Name and custom headers of an OpenAI-compatible endpoint
+	 */
+	private displayCompatibleProviderSettings(containerEl: HTMLElement, endpoint: ProviderConfig): void {
+		new Setting(containerEl)
+			.setName('Name')
+			.setDesc('Shown in model and tier lists')
+			.addText(text => text
+				.setPlaceholder('My server')
+				.setValue(endpoint.name ?? '')
+				.onChange(async (value) => {
+					endpoint.name = value.trim() || undefined;
+					setProviderDisplayName(endpoint.id, endpoint.name ?? endpoint.id);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Custom headers')
+			.setDesc('Sent with every request. Write one header per line, with a colon between name and value.')
+			.addTextArea(text => text
+				.setPlaceholder('Header: value')
+				.setValue(formatKeyValueLines(endpoint.headers))
+				.onChange(async (value) => {
+					endpoint.headers = parseKeyValueLines(value);
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	/**
+	 * Deployment to model mapping of Azure OpenAI
+	 * Saving reloads the models, so new deployments show up in the tier assignment.
+	 */
+	private displayAzureDeployments(containerEl: HTMLElement): void {
+		const config = this.plugin.settings.providers['azure-openai'];
+		if (!config) {
+			return;
+		}
+
+		new Setting(containerEl)
+			.setName('Deployments')
+			.setDesc('One deployment per line, with a colon between deployment name and the model it serves. Each deployment can be assigned to tiers.')
+			.addTextArea(text => text
+				.setPlaceholder('Deployment: model')
+				.setValue(formatKeyValueLines(config.deployments))
+				.onChange(async (value) => {
+					config.deployments = parseKeyValueLines(value);
+					await this.plugin.saveSettings();
+					this.plugin['providerManager']?.loadConfigs(this.plugin.settings.providers);
+				}))
+			.addExtraButton(button => button
+				.setIcon('refresh-cw')
+				.setTooltip('Reload deployments')
+				.onClick(async () => {
+					try {
+						await this.plugin.refreshModels();
+						this.display();
+					} catch (error: unknown) {
+						new Notice(`Error reloading deployments: ${error instanceof Error ? error.message : 'unknown error'}`);
+					}
+				}));
+	}
+
 	/**
 	 * Tier Assignment Section
 	 */
@@ -417,6 +692,12 @@ export class LLMConnectorSettingTab extends PluginSettingTab {
 				desc: 'Code generation, review, and analysis (programming tasks)',
 				fallback: 'Falls back to: advanced → balanced → fast',
 			},
+			{
+				tier: 'vision',
+				name: 'Vision tier',
+				desc: 'Image understanding (describing images, reading screenshots and diagrams)',
+				fallback: 'Falls back to: advanced → balanced → fast (multimodal models only)',
+			},
 			{
 				tier: 'embedding',
 				name: 'Embedding tier',
@@ -513,6 +794,10 @@ export class LLMConnectorSettingTab extends PluginSettingTab {
 					// Provider exists in assignment but is disabled - show as unconfigured
 					statusDesc.setText('Not configured - will fall back');
 					statusDesc.setCssProps({ color: 'var(--text-error)' });
+				} else if (!this.plugin['providerManager']?.getProvider(currentAssignment.provider)) {
+					// Provider from another plugin that has been unloaded or removed
+					statusDesc.setText('Provider not loaded - will fall back');
+					statusDesc.setCssProps({ color: 'var(--text-error)' });
 				} else {
 					// Provider is enabled - check if model is reachable
 					const modelStillExists = availableModels.find(
@@ -571,6 +856,17 @@ export class LLMConnectorSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		// Runtime Fallback
+		new Setting(containerEl)
+			.setName('Fall back on provider errors')
+			.setDesc('If a request fails (rate limit, timeout, provider down), retry it with the next tier in the fallback chain')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.fallbackOnError)
+				.onChange(async (value) => {
+					this.plugin.settings.fallbackOnError = value;
+					await this.plugin.saveSettings();
+				}));
+
 		// Fallback Notification Mode
 		new Setting(containerEl)
 			.setName('Fallback notifications')
@@ -597,4 +893,463 @@ export class LLMConnectorSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 	}
+
+	/**
+	 * Context Window Section
+	 */
+	private displayContextSection(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Context window')
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('When a request is too long')
+			.setDesc('What to do when a prompt or conversation exceeds the model\'s context window. Plugins can override this per request.')
+			.addDropdown(dropdown => dropdown
+				.addOption('drop_oldest', 'Drop oldest messages (recommended)')
+				.addOption('truncate_middle', 'Shorten the middle of long messages')
+				.addOption('reject', 'Reject the request with an error')
+				.setValue(this.plugin.settings.contextStrategy)
+				.onChange(async (value) => {
+					this.plugin.settings.contextStrategy = value as ContextStrategy;
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	/**
+	 * Embedding Index Section
+	 */
+	private displayEmbeddingIndexSection(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Embedding index')
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('Index vault notes')
+			.setDesc('Embed your notes with the embedding tier so plugins can search them by meaning. Note contents are sent to the embedding provider.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.embeddingIndexEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.embeddingIndexEnabled = value;
+					await this.plugin.saveSettings();
+					// Refresh display to show/hide index status
+					this.display();
+				}));
+
+		if (!this.plugin.settings.embeddingIndexEnabled) {
+			return;
+		}
+
+		const status = this.plugin.vectorIndex.getStatus();
+		let description = `${status.files} notes, ${status.chunks} chunks`;
+		if (status.namespace) {
+			description += ` (${status.namespace})`;
+		}
+		if (status.pending > 0) {
+			description += `, ${status.pending} waiting to be indexed`;
+		}
+		if (status.lastError) {
+			description += `. Last error: ${status.lastError}`;
+		}
+
+		new Setting(containerEl)
+			.setName('Index status')
+			.setDesc(description)
+			.addButton(button => button
+				.setButtonText('Refresh')
+				.onClick(() => {
+					this.display();
+				}))
+			.addButton(button => button
+				.setButtonText('Rebuild')
+				.setWarning()
+				.onClick(async () => {
+					await this.plugin.vectorIndex.rebuild();
+					new Notice('Rebuilding embedding index');
+					this.display();
+				}));
+	}
+
+	/**
+	 * Usage Section
+	 */
+	private displayUsageSection(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Usage')
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('Record usage')
+			.setDesc('Keep a local log of requests with token counts and estimated cost. Nothing is sent anywhere.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.usageTrackingEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.usageTrackingEnabled = value;
+					await this.plugin.saveSettings();
+				}));
+
+		const now = new Date();
+		const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+		const monthStart = new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+		const ledger = this.plugin.usageLedger;
+
+		new Setting(containerEl)
+			.setName('Today')
+			.setDesc(formatUsage(ledger.getSummary({ from: todayStart })));
+
+		new Setting(containerEl)
+			.setName('This month')
+			.setDesc(formatUsage(ledger.getSummary({ from: monthStart })));
+
+		const byProvider = ledger.getSummary({ from: todayStart - 29 * 24 * 60 * 60 * 1000, groupBy: 'provider' });
+		for (const [provider, totals] of Object.entries(byProvider.groups ?? {})) {
+			new Setting(containerEl)
+				.setName(`${getProviderDisplayName(provider)}, last 30 days`)
+				.setDesc(formatUsage(totals));
+		}
+
+		new Setting(containerEl)
+			.setName('Usage history')
+			.setDesc('Costs are estimates from listed model prices and may differ from your bill.')
+			.addButton(button => button
+				.setButtonText('Clear history')
+				.setWarning()
+				.onClick(async () => {
+					await ledger.clear();
+					new Notice('Usage history cleared');
+					this.display();
+				}));
+	}
+
+	/**
+	 * Budget Section
+	 */
+	private displayBudgetSection(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Budgets')
+			.setDesc('Daily or monthly spending limits for a provider or a plugin, based on the usage history. Free local models are never limited.')
+			.setHeading();
+
+		if (!this.plugin.settings.usageTrackingEnabled && this.plugin.settings.budgets.length > 0) {
+			new Setting(containerEl)
+				.setName('Budgets are paused')
+				.setDesc('Budgets are only enforced while usage is recorded. Turn on the option above.');
+		}
+
+		const unpriced = this.plugin.getUnpricedTierModels();
+		if (this.plugin.settings.budgets.length > 0 && unpriced.length > 0) {
+			const names = unpriced.map(model => `${model.id} (${getProviderDisplayName(model.provider)})`).join(', ');
+			new Setting(containerEl)
+				.setName('Unknown prices')
+				.setDesc(`No prices are known for ${names}. Budgets treat these models as paid and block them once a limit is reached, but their requests are recorded at $0 and don't add to spending.`);
+		}
+
+		this.plugin.settings.budgets.forEach((budget, index) => {
+			this.displayBudget(containerEl, budget, index);
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add budget')
+				.onClick(async () => {
+					this.plugin.settings.budgets.push({
+						id: `budget-${Date.now()}`,
+						scope: 'provider',
+						target: Object.keys(this.plugin.settings.providers)[0] ?? 'openai',
+						period: 'monthly',
+						limit: 10,
+						warnAt: 0.8,
+						action: 'reject',
+						enabled: true,
+					});
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+	}
+
+	/**
+	 * Settings for one budget
+	 */
+	private displayBudget(containerEl: HTMLElement, budget: Budget, index: number): void {
+		const status = this.plugin.budgetManager.getStatus(budget);
+		const period = budget.period === 'daily' ? 'today' : 'this month';
+		let description = `$${status.spent.toFixed(2)} of $${budget.limit.toFixed(2)} spent ${period}`;
+		if (status.exceeded) {
+			description += ' - limit reached';
+		} else if (status.warning) {
+			description += ' - almost reached';
+		}
+
+		const target = budget.scope === 'provider' ? getProviderDisplayName(budget.target) : budget.target;
+		new Setting(containerEl)
+			.setName(`Budget ${index + 1}: ${target}`)
+			.setDesc(description)
+			.addToggle(toggle => toggle
+				.setTooltip('Enforce this budget')
+				.setValue(budget.enabled)
+				.onChange(async (value) => {
+					budget.enabled = value;
+					await this.plugin.saveSettings();
+				}))
+			.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Remove budget')
+				.onClick(async () => {
+					this.plugin.settings.budgets.splice(index, 1);
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		const targetSetting = new Setting(containerEl)
+			.setName('Applies to')
+			.addDropdown(dropdown => dropdown
+				.addOption('provider', 'Provider')
+				.addOption('plugin', 'Plugin')
+				.setValue(budget.scope)
+				.onChange(async (value) => {
+					budget.scope = value as Budget['scope'];
+					budget.target = value === 'provider' ? Object.keys(this.plugin.settings.providers)[0] ?? '' : '';
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (budget.scope === 'provider') {
+			targetSetting.addDropdown(dropdown => {
+				for (const providerId of Object.keys(this.plugin.settings.providers)) {
+					dropdown.addOption(providerId, getProviderDisplayName(providerId));
+				}
+				dropdown
+					.setValue(budget.target)
+					.onChange(async (value) => {
+						budget.target = value;
+						await this.plugin.saveSettings();
+					});
+			});
+		} else {
+			targetSetting
+				.setDesc('Plugin ID from the plugin\'s manifest. Use "unknown" for plugins that don\'t identify themselves.')
+				.addText(text => text
+					.setPlaceholder('Plugin ID')
+					.setValue(budget.target)
+					.onChange(async (value) => {
+						budget.target = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Spending limit')
+			.setDesc('Maximum estimated cost in dollars per day or calendar month')
+			.addDropdown(dropdown => dropdown
+				.addOption('daily', 'Per day')
+				.addOption('monthly', 'Per month')
+				.setValue(budget.period)
+				.onChange(async (value) => {
+					budget.period = value as Budget['period'];
+					await this.plugin.saveSettings();
+				}))
+			.addText(text => text
+				.setPlaceholder('10')
+				.setValue(String(budget.limit))
+				.onChange(async (value) => {
+					const limit = parseAmount(value);
+					if (limit !== null) {
+						budget.limit = limit;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Warn at (%)')
+			.setDesc('Show a warning once spending reaches this share of the limit. Use 0 to turn warnings off.')
+			.addText(text => text
+				.setPlaceholder('80')
+				.setValue(String(Math.round(budget.warnAt * 100)))
+				.onChange(async (value) => {
+					const percent = parseAmount(value);
+					if (percent !== null && percent <= 100) {
+						budget.warnAt = percent / 100;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('When the limit is reached')
+			.addDropdown(dropdown => dropdown
+				.addOption('reject', 'Reject paid requests with an error')
+				.addOption('fallback_local', 'Fall back to free local models')
+				.setValue(budget.action)
+				.onChange(async (value) => {
+					budget.action = value as BudgetAction;
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	/**
+	 * Plugin Access Section
+	 */
+	private displayPluginAccessSection(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Plugin access')
+			.setDesc('Plugins appear here after their first request. Requests from plugins that don\'t identify themselves are listed as "unknown".')
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('Ask before new plugins use models')
+			.setDesc('Show a confirmation the first time a plugin sends a request')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.confirmNewPlugins)
+				.onChange(async (value) => {
+					this.plugin.settings.confirmNewPlugins = value;
+					await this.plugin.saveSettings();
+				}));
+
+		const entries = Object.entries(this.plugin.settings.pluginPermissions)
+			.sort(([, a], [, b]) => a.firstSeen - b.firstSeen);
+		for (const [pluginId, permissions] of entries) {
+			this.displayPluginPermissions(containerEl, pluginId, permissions);
+		}
+	}
+
+	/**
+	 * Access rules for one plugin
+	 */
+	private displayPluginPermissions(containerEl: HTMLElement, pluginId: string, permissions: PluginPermissions): void {
+		const name = this.plugin.getPluginName(pluginId);
+		new Setting(containerEl)
+			.setName(name)
+			.setDesc(name === pluginId ? '' : pluginId)
+			.addDropdown(dropdown => dropdown
+				.addOption('allowed', 'Allowed')
+				.addOption('ask', 'Ask on next request')
+				.addOption('blocked', 'Blocked')
+				.setValue(permissions.access)
+				.onChange(async (value) => {
+					permissions.access = value as PluginPermissions['access'];
+					await this.plugin.saveSettings();
+				}))
+			.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Forget plugin')
+				.onClick(async () => {
+					delete this.plugin.settings.pluginPermissions[pluginId];
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		new Setting(containerEl)
+			.setName('Cloud providers')
+			.setDesc('Allow requests to cloud services. When off, only providers on your machine or network are used (e.g. Ollama).')
+			.addToggle(toggle => toggle
+				.setValue(permissions.allowCloud)
+				.onChange(async (value) => {
+					permissions.allowCloud = value;
+					await this.plugin.saveSettings();
+				}));
+
+		const providerIds = Object.keys(this.plugin.settings.providers);
+		new Setting(containerEl)
+			.setName('Providers')
+			.setDesc(`Comma-separated provider IDs (${providerIds.join(', ')}). Leave empty to allow all.`)
+			.addText(text => text
+				.setPlaceholder('All providers')
+				.setValue(permissions.providers?.join(', ') ?? '')
+				.onChange(async (value) => {
+					permissions.providers = parseList(value);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Tiers')
+			.setDesc('Comma-separated tiers (fast, balanced, advanced, thinking, code, vision, embedding). Leave empty to allow all tiers and specific models.')
+			.addText(text => text
+				.setPlaceholder('All tiers')
+				.setValue(permissions.tiers?.join(', ') ?? '')
+				.onChange(async (value) => {
+					permissions.tiers = parseList(value) as PerformanceTier[];
+					await this.plugin.saveSettings();
+				}));
+	}
+}
+
+/**
+ * Provider settings stored on the config itself; other fields go to `options`
+ */
+const STANDARD_CONFIG_KEYS = ['apiKey', 'baseUrl', 'defaultModel'] as const;
+
+type StandardConfigKey = typeof STANDARD_CONFIG_KEYS[number];
+
+function isStandardConfigKey(key: string): key is StandardConfigKey {
+	return (STANDARD_CONFIG_KEYS as readonly string[]).includes(key);
+}
+
+/**
+ * Value of a provider config field
+ */
+function getConfigValue(config: ProviderConfig, key: string): string {
+	return (isStandardConfigKey(key) ? config[key] : config.options?.[key]) ?? '';
+}
+
+/**
+ * Set a provider config field
+ */
+function setConfigValue(config: ProviderConfig | undefined, key: string, value: string): void {
+	if (!config) {
+		return;
+	}
+	if (isStandardConfigKey(key)) {
+		config[key] = value;
+	} else {
+		config.options = { ...config.options, [key]: value };
+	}
+}
+
+/**
+ * Parse "key: value" lines (request headers, Azure deployments)
+ * @returns undefined if no line holds an entry
+ */
+function parseKeyValueLines(value: string): Record<string, string> | undefined {
+	const entries: Record<string, string> = {};
+	for (const line of value.split('\n')) {
+		const separator = line.indexOf(':');
+		const key = line.slice(0, separator).trim();
+		if (separator > 0 && key) {
+			entries[key] = line.slice(separator + 1).trim();
+		}
+	}
+	return Object.keys(entries).length > 0 ? entries : undefined;
+}
+
+/**
+ * Entries as "key: value" lines
+ */
+function formatKeyValueLines(entries: Record<string, string> | undefined): string {
+	return Object.entries(entries ?? {}).map(([key, value]) => `${key}: ${value}`).join('\n');
+}
+
+/**
+ * Split a comma-separated settings field into its entries
+ */
+function parseList(value: string): string[] {
+	return value.split(',').map(entry => entry.trim()).filter(entry => entry !== '');
+}
+
+/**
+ * Parse a number typed into a settings text field
+ * @returns null for empty or invalid input
+ */
+function parseAmount(value: string): number | null {
+	const amount = parseFloat(value.replace(',', '.'));
+	return isFinite(amount) && amount >= 0 ? amount : null;
+}
+
+/**
+ * One-line summary of usage totals for the settings tab
+ */
+function formatUsage(totals: UsageTotals): string {
+	if (totals.requests === 0) {
+		return 'No requests';
+	}
+	const requests = `${totals.requests} ${totals.requests === 1 ? 'request' : 'requests'}`;
+	return `${requests}, ${totals.tokens.total.toLocaleString()} tokens, $${totals.cost.toFixed(2)}`;
 }
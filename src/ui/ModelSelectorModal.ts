@@ -9,8 +9,19 @@ const PROVIDER_DISPLAY_NAMES: Record<string, string> = {
 	'openrouter': 'OpenRouter',
 	'openai': 'OpenAI',
 	'anthropic': 'Anthropic',
+	'gemini': 'Google Gemini',
+	'mistral': 'Mistral',
+	'groq': 'Groq',
+	'azure-openai': 'Azure OpenAI',
 };
 
+/**
+ * Set the display name of a provider added by another plugin
+ */
+export function setProviderDisplayName(providerId: string, name: string): void {
+	PROVIDER_DISPLAY_NAMES[providerId] = name;
+}
+
 /**
  * Get display name for provider
  */
@@ -67,11 +78,13 @@ export class ModelSelectorModal extends FuzzySuggestModal<ModelOption> {
 			isNotConfigured: true,
 		});
 
-		// Filter models based on tier (embedding vs non-embedding)
+		// Filter models based on tier (embedding, multimodal or other chat models)
 		const filteredModels = this.availableModels.filter(model => {
 			const isEmbedding = model.tags.includes('embedding');
 			if (this.tier === 'embedding') {
 				return isEmbedding;
+			} else if (this.tier === 'vision') {
+				return model.tags.includes('multimodal');
 			} else {
 				return !isEmbedding;
 			}
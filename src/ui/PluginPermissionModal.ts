@@ -0,0 +1,53 @@
+import { App, Modal, Setting } from 'obsidian';
+
+/**
+ * Asks whether a plugin may use the connector on its first request
+ * Closing the modal without choosing counts as neither (the plugin is asked again next time).
+ */
+export class PluginPermissionModal extends Modal {
+	private decided = false;
+
+	constructor(
+		app: App,
+		private pluginName: string,
+		private onDecide: (allowed: boolean | null) => void
+	) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		this.setTitle('Allow plugin to use AI models?');
+		contentEl.createEl('p', {
+			text: `"${this.pluginName}" wants to send requests through LLM Connector. ` +
+				'Its prompts may contain your notes and are sent to the providers you configured.',
+		});
+		contentEl.createEl('p', {
+			text: 'You can change this later under plugin access in the connector settings.',
+		});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Block')
+				.setWarning()
+				.onClick(() => this.decide(false)))
+			.addButton(button => button
+				.setButtonText('Allow')
+				.setCta()
+				.onClick(() => this.decide(true)));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+		if (!this.decided) {
+			this.onDecide(null);
+		}
+	}
+
+	private decide(allowed: boolean): void {
+		this.decided = true;
+		this.onDecide(allowed);
+		this.close();
+	}
+}
@@ -87,6 +87,28 @@ export class NotificationManager {
 		}
 	}
 
+	/**
+	 * Notify about a budget warning or a used-up budget
+	 * BudgetManager limits these to once per budget and period, so they aren't deduplicated here.
+	 */
+	notifyBudget(message: string): void {
+		switch (this.mode) {
+			case 'console':
+				console.warn('[LLM Connector]', message);
+				break;
+			case 'notice':
+				new Notice(`LLM Connector: ${message}`, 8000);
+				break;
+			case 'both':
+				console.warn('[LLM Connector]', message);
+				new Notice(`LLM Connector: ${message}`, 8000);
+				break;
+			case 'none':
+				// Silent
+				break;
+		}
+	}
+
 	/**
 	 * Format a fallback message
 	 */
@@ -114,6 +136,10 @@ export class NotificationManager {
 				return 'timeout';
 			case 'model_unavailable':
 				return 'model unavailable';
+			case 'budget_exceeded':
+				return 'budget exceeded';
+			case 'permission_denied':
+				return 'not allowed for this plugin';
 			default:
 				return 'unknown reason';
 		}
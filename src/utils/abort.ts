@@ -0,0 +1,46 @@
+import { AbortError } from '../errors';
+
+/**
+ * Throw AbortError if the signal has already fired
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+	if (signal?.aborted) {
+		throw new AbortError();
+	}
+}
+
+/**
+ * Check whether an error comes from an aborted request
+ * Matches our AbortError as well as the DOMException thrown by fetch.
+ */
+export function isAbortError(error: unknown): boolean {
+	return error instanceof AbortError
+		|| (error instanceof Error && error.name === 'AbortError');
+}
+
+/**
+ * Reject with AbortError as soon as the signal fires
+ * Used for requestUrl calls, which cannot be cancelled themselves: the caller is
+ * released immediately, but the request keeps running (and is billed by the
+ * provider) and its response is discarded.
+ */
+export async function withAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+	if (!signal) {
+		return promise;
+	}
+	throwIfAborted(signal);
+
+	let onAbort: (() => void) | undefined;
+	const aborted = new Promise<never>((_, reject) => {
+		onAbort = (): void => reject(new AbortError());
+		signal.addEventListener('abort', onAbort, { once: true });
+	});
+
+	try {
+		return await Promise.race([promise, aborted]);
+	} finally {
+		if (onAbort) {
+			signal.removeEventListener('abort', onAbort);
+		}
+	}
+}
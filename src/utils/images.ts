@@ -0,0 +1,108 @@
+import { TFile, arrayBufferToBase64 } from 'obsidian';
+import type { Vault } from 'obsidian';
+import { InvalidRequestError } from '../errors';
+import type { ChatMessage, CompletionOptions, ImageAttachment } from '../types';
+
+/**
+ * Image formats accepted by all supported providers
+ */
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+	png: 'image/png',
+	jpg: 'image/jpeg',
+	jpeg: 'image/jpeg',
+	gif: 'image/gif',
+	webp: 'image/webp',
+};
+
+const DEFAULT_MIME_TYPE = 'image/png';
+
+/**
+ * An image as providers send it: base64 without a data: prefix
+ */
+export interface EncodedImage {
+	mimeType: string;
+	data: string;
+}
+
+/**
+ * Whether a request carries images anywhere (prompt or history)
+ */
+export function hasImages(options: CompletionOptions): boolean {
+	return !!options.images?.length || !!options.messages?.some(message => message.images?.length);
+}
+
+/**
+ * Load images given as vault paths into memory
+ * Images given as data are returned unchanged.
+ * @throws InvalidRequestError if a file is missing or not a supported image
+ */
+export async function loadImages<T extends CompletionOptions>(options: T, vault: Vault): Promise<T> {
+	if (!hasImages(options)) {
+		return options;
+	}
+
+	const loadAll = (images: ImageAttachment[]): Promise<ImageAttachment[]> =>
+		Promise.all(images.map(image => loadImage(image, vault)));
+
+	const result: T = { ...options };
+	if (options.images) {
+		result.images = await loadAll(options.images);
+	}
+	if (options.messages) {
+		result.messages = await Promise.all(options.messages.map(async (message): Promise<ChatMessage> =>
+			message.images ? { ...message, images: await loadAll(message.images) } : message
+		));
+	}
+	return result;
+}
+
+/**
+ * Convert an attachment to base64 with a MIME type
+ * @throws InvalidRequestError if the attachment has no data (vault paths must be loaded first)
+ */
+export function encodeImage(image: ImageAttachment): EncodedImage {
+	if (image.data instanceof ArrayBuffer) {
+		return { mimeType: image.mimeType ?? DEFAULT_MIME_TYPE, data: arrayBufferToBase64(image.data) };
+	}
+
+	if (typeof image.data === 'string') {
+		const dataUrl = /^data:([^;,]+);base64,([\s\S]*)$/.exec(image.data);
+		if (dataUrl) {
+			return { mimeType: image.mimeType ?? dataUrl[1] ?? DEFAULT_MIME_TYPE, data: dataUrl[2] ?? '' };
+		}
+		return { mimeType: image.mimeType ?? DEFAULT_MIME_TYPE, data: image.data };
+	}
+
+	throw new InvalidRequestError(
+		image.path ? `Image was not loaded: ${image.path}` : 'Image attachment needs a path or data'
+	);
+}
+
+/**
+ * Format an image as a data: URL (OpenAI-style APIs)
+ */
+export function toDataUrl(image: ImageAttachment): string {
+	const { mimeType, data } = encodeImage(image);
+	return `data:${mimeType};base64,${data}`;
+}
+
+async function loadImage(image: ImageAttachment, vault: Vault): Promise<ImageAttachment> {
+	if (image.data !== undefined || !image.path) {
+		return image;
+	}
+
+	const file = vault.getAbstractFileByPath(image.path);
+	if (!(file instanceof TFile)) {
+		throw new InvalidRequestError(`Image not found in vault: ${image.path}`);
+	}
+
+	const mimeType = image.mimeType ?? MIME_TYPES_BY_EXTENSION[file.extension.toLowerCase()];
+	if (!mimeType) {
+		throw new InvalidRequestError(
+			`Unsupported image type ".${file.extension}" (${image.path}). ` +
+			`Supported: ${Object.keys(MIME_TYPES_BY_EXTENSION).join(', ')}`
+		);
+	}
+
+	return { ...image, data: await vault.readBinary(file), mimeType };
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { checkJsonResponse, getJsonInstruction, validateJsonSchema } from './jsonSchema';
+import type { JsonSchema } from '../types';
+
+const PERSON_SCHEMA: JsonSchema = {
+	type: 'object',
+	properties: {
+		name: { type: 'string', minLength: 1 },
+		age: { type: 'integer', minimum: 0 },
+		role: { enum: ['admin', 'user'] },
+		tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+	},
+	required: ['name', 'age'],
+	additionalProperties: false,
+};
+
+describe('checkJsonResponse', () => {
+	it('accepts JSON that matches the schema', () => {
+		const result = checkJsonResponse('{"name":"Ada","age":36,"tags":["math"]}', { type: 'json', schema: PERSON_SCHEMA });
+
+		expect(result).toEqual({ valid: true, data: { name: 'Ada', age: 36, tags: ['math'] } });
+	});
+
+	it('tolerates code fences around the JSON', () => {
+		const result = checkJsonResponse('```json\n{"name":"Ada","age":36}\n```\n', { type: 'json', schema: PERSON_SCHEMA });
+
+		expect(result.valid).toBe(true);
+	});
+
+	it('reports text that is not JSON', () => {
+		const result = checkJsonResponse('Sure! Here is the JSON you asked for.', { type: 'json' });
+
+		expect(result.valid).toBe(false);
+		expect(!result.valid && result.errors[0]).toMatch(/^Response is not valid JSON/);
+	});
+
+	it('requires an object when there is no schema', () => {
+		expect(checkJsonResponse('{"any":"thing"}', { type: 'json' }).valid).toBe(true);
+		expect(checkJsonResponse('[1, 2]', { type: 'json' })).toEqual({
+			valid: false,
+			errors: ['$: expected object, got array'],
+		});
+	});
+
+	it('lists every violation with its location', () => {
+		const result = checkJsonResponse(
+			'{"name":"","role":"owner","tags":["a",2,"c"],"email":"ada@example.com"}',
+			{ type: 'json', schema: PERSON_SCHEMA }
+		);
+
+		expect(result.valid).toBe(false);
+		expect(!result.valid && result.errors).toEqual([
+			'$: missing required property "age"',
+			'$.name: must have at least 1 characters',
+			'$.role: must be one of ["admin","user"]',
+			'$.tags: must have at most 2 items',
+			'$.tags[1]: expected string, got number',
+			'$: unexpected property "email"',
+		]);
+	});
+});
+
+describe('validateJsonSchema', () => {
+	it('checks types, including integer and union types', () => {
+		expect(validateJsonSchema(1.5, { type: 'integer' })).toEqual(['$: expected integer, got number']);
+		expect(validateJsonSchema(null, { type: ['string', 'null'] })).toEqual([]);
+		expect(validateJsonSchema({}, { type: 'string' })).toEqual(['$: expected string, got object']);
+	});
+
+	it('checks patterns and numeric bounds', () => {
+		expect(validateJsonSchema('2026-13', { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$' }))
+			.toEqual(['$: must match ^\\d{4}-\\d{2}-\\d{2}$']);
+		expect(validateJsonSchema(10, { exclusiveMaximum: 10 })).toEqual(['$: must be < 10']);
+		expect(validateJsonSchema(0.5, { minimum: 0, maximum: 1 })).toEqual([]);
+	});
+
+	it('checks const and validates additionalProperties schemas', () => {
+		expect(validateJsonSchema('v2', { const: 'v1' })).toEqual(['$: must be "v1"']);
+		expect(validateJsonSchema({ a: 1, b: 'x' }, { type: 'object', additionalProperties: { type: 'number' } }))
+			.toEqual(['$.b: expected number, got string']);
+	});
+
+	it('checks anyOf, oneOf and allOf', () => {
+		const anyOf: JsonSchema = { anyOf: [{ type: 'string' }, { type: 'number' }] };
+		const oneOf: JsonSchema = { oneOf: [{ type: 'number' }, { type: 'integer' }] };
+		const allOf: JsonSchema = { allOf: [{ type: 'string' }, { maxLength: 3 }] };
+
+		expect(validateJsonSchema(3, anyOf)).toEqual([]);
+		expect(validateJsonSchema(true, anyOf)).toEqual(['$: must match at least one of the allowed schemas (anyOf)']);
+		expect(validateJsonSchema(1.5, oneOf)).toEqual([]);
+		expect(validateJsonSchema(2, oneOf)).toEqual(['$: must match exactly one of the allowed schemas (oneOf), matched 2']);
+		expect(validateJsonSchema('abcd', allOf)).toEqual(['$: must have at most 3 characters']);
+	});
+
+	it('ignores unsupported keywords', () => {
+		expect(validateJsonSchema('not an email', { type: 'string', format: 'email' })).toEqual([]);
+		expect(validateJsonSchema({ a: 1 }, { $ref: '#/definitions/thing' })).toEqual([]);
+	});
+});
+
+describe('getJsonInstruction', () => {
+	it('includes the schema when there is one', () => {
+		expect(getJsonInstruction({ type: 'json' })).not.toContain('schema');
+		expect(getJsonInstruction({ type: 'json', schema: { type: 'object' } })).toContain('{"type":"object"}');
+	});
+});
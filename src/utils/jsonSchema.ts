@@ -0,0 +1,216 @@
+import type { JsonSchema, ResponseFormat } from '../types';
+
+/**
+ * Helpers for structured JSON output
+ * The validator covers the JSON schema keywords models are usually given
+ * (types, properties, required, items, enum, bounds, combinators).
+ * Unsupported keywords such as $ref and format are ignored.
+ */
+
+/**
+ * Outcome of checking a model response against a response format
+ */
+export type JsonCheckResult =
+	| { valid: true; data: unknown }
+	| { valid: false; errors: string[] };
+
+/**
+ * Instruction added to the system prompt for providers without native schema support
+ */
+export function getJsonInstruction(format: ResponseFormat): string {
+	if (!format.schema) {
+		return 'Respond only with a valid JSON object, without any other text or code fences.';
+	}
+	return 'Respond only with JSON that matches this JSON schema, without any other text or code fences:\n' +
+		JSON.stringify(format.schema);
+}
+
+/**
+ * Parse a model response and validate it against the format's schema
+ * Code fences around the JSON are tolerated.
+ */
+export function checkJsonResponse(text: string, format: ResponseFormat): JsonCheckResult {
+	let data: unknown;
+	try {
+		data = JSON.parse(stripCodeFence(text));
+	} catch (error: unknown) {
+		return { valid: false, errors: [`Response is not valid JSON (${error instanceof Error ? error.message : String(error)})`] };
+	}
+
+	const errors = validateJsonSchema(data, format.schema ?? { type: 'object' });
+	return errors.length > 0 ? { valid: false, errors } : { valid: true, data };
+}
+
+/**
+ * Validate a value against a JSON schema
+ * @returns Error messages with JSONPath-like locations; empty if valid
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+	const errors: string[] = [];
+
+	const type = schema.type as string | string[] | undefined;
+	if (type !== undefined) {
+		const types = Array.isArray(type) ? type : [type];
+		if (!types.some(expected => matchesType(value, expected))) {
+			// Further checks would only repeat the type mismatch
+			return [`${path}: expected ${types.join(' or ')}, got ${describeType(value)}`];
+		}
+	}
+
+	if (Array.isArray(schema.enum) && !schema.enum.some(option => deepEqual(option, value))) {
+		errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`);
+	}
+	if ('const' in schema && !deepEqual(schema.const, value)) {
+		errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+	}
+
+	if (typeof value === 'string') {
+		errors.push(...validateString(value, schema, path));
+	} else if (typeof value === 'number') {
+		errors.push(...validateNumber(value, schema, path));
+	} else if (Array.isArray(value)) {
+		errors.push(...validateArray(value, schema, path));
+	} else if (isObject(value)) {
+		errors.push(...validateObject(value, schema, path));
+	}
+
+	errors.push(...validateCombinators(value, schema, path));
+	return errors;
+}
+
+function validateString(value: string, schema: JsonSchema, path: string): string[] {
+	const errors: string[] = [];
+	if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+		errors.push(`${path}: must have at least ${schema.minLength} characters`);
+	}
+	if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+		errors.push(`${path}: must have at most ${schema.maxLength} characters`);
+	}
+	if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern).test(value)) {
+		errors.push(`${path}: must match ${schema.pattern}`);
+	}
+	return errors;
+}
+
+function validateNumber(value: number, schema: JsonSchema, path: string): string[] {
+	const errors: string[] = [];
+	if (typeof schema.minimum === 'number' && value < schema.minimum) {
+		errors.push(`${path}: must be >= ${schema.minimum}`);
+	}
+	if (typeof schema.maximum === 'number' && value > schema.maximum) {
+		errors.push(`${path}: must be <= ${schema.maximum}`);
+	}
+	if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+		errors.push(`${path}: must be > ${schema.exclusiveMinimum}`);
+	}
+	if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+		errors.push(`${path}: must be < ${schema.exclusiveMaximum}`);
+	}
+	return errors;
+}
+
+function validateArray(value: unknown[], schema: JsonSchema, path: string): string[] {
+	const errors: string[] = [];
+	if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+		errors.push(`${path}: must have at least ${schema.minItems} items`);
+	}
+	if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+		errors.push(`${path}: must have at most ${schema.maxItems} items`);
+	}
+	if (isObject(schema.items)) {
+		const items = schema.items;
+		value.forEach((item, index) => errors.push(...validateJsonSchema(item, items, `${path}[${index}]`)));
+	}
+	return errors;
+}
+
+function validateObject(value: Record<string, unknown>, schema: JsonSchema, path: string): string[] {
+	const errors: string[] = [];
+	const properties = isObject(schema.properties) ? schema.properties : {};
+
+	if (Array.isArray(schema.required)) {
+		for (const key of schema.required) {
+			if (typeof key === 'string' && !(key in value)) {
+				errors.push(`${path}: missing required property "${key}"`);
+			}
+		}
+	}
+
+	for (const [key, propertyValue] of Object.entries(value)) {
+		const propertySchema = properties[key];
+		if (isObject(propertySchema)) {
+			errors.push(...validateJsonSchema(propertyValue, propertySchema, `${path}.${key}`));
+		} else if (schema.additionalProperties === false) {
+			errors.push(`${path}: unexpected property "${key}"`);
+		} else if (isObject(schema.additionalProperties)) {
+			errors.push(...validateJsonSchema(propertyValue, schema.additionalProperties, `${path}.${key}`));
+		}
+	}
+
+	return errors;
+}
+
+function validateCombinators(value: unknown, schema: JsonSchema, path: string): string[] {
+	const errors: string[] = [];
+	const subschemas = (keyword: string): JsonSchema[] =>
+		Array.isArray(schema[keyword]) ? (schema[keyword] as unknown[]).filter(isObject) : [];
+
+	for (const subschema of subschemas('allOf')) {
+		errors.push(...validateJsonSchema(value, subschema, path));
+	}
+
+	const anyOf = subschemas('anyOf');
+	if (anyOf.length > 0 && !anyOf.some(subschema => validateJsonSchema(value, subschema, path).length === 0)) {
+		errors.push(`${path}: must match at least one of the allowed schemas (anyOf)`);
+	}
+
+	const oneOf = subschemas('oneOf');
+	if (oneOf.length > 0) {
+		const matches = oneOf.filter(subschema => validateJsonSchema(value, subschema, path).length === 0).length;
+		if (matches !== 1) {
+			errors.push(`${path}: must match exactly one of the allowed schemas (oneOf), matched ${matches}`);
+		}
+	}
+
+	return errors;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+	switch (type) {
+		case 'null':
+			return value === null;
+		case 'integer':
+			return typeof value === 'number' && Number.isInteger(value);
+		case 'number':
+			return typeof value === 'number' && isFinite(value);
+		case 'array':
+			return Array.isArray(value);
+		case 'object':
+			return isObject(value);
+		default:
+			return typeof value === type;
+	}
+}
+
+function describeType(value: unknown): string {
+	if (value === null) {
+		return 'null';
+	}
+	return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+	return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Remove a surrounding ```json fence, which some models add despite instructions
+ */
+function stripCodeFence(text: string): string {
+	const fenced = /^\s*```(?:json)?\s*([\s\S]*?)\s*```\s*$/.exec(text);
+	return fenced?.[1] ?? text.trim();
+}
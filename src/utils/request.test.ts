@@ -0,0 +1,208 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+	HttpError,
+	RequestTimeoutError,
+	getRetryDelay,
+	isRetryable,
+	parseDuration,
+	parseRetryAfter,
+	withRetry,
+} from './request';
+import { AbortError } from '../errors';
+
+describe('isRetryable', () => {
+	it('retries rate limits, timeouts and server errors', () => {
+		expect(isRetryable(new HttpError(429, ''))).toBe(true);
+		expect(isRetryable(new HttpError(408, ''))).toBe(true);
+		expect(isRetryable(new HttpError(500, ''))).toBe(true);
+		expect(isRetryable(new HttpError(529, 'overloaded'))).toBe(true);
+		expect(isRetryable(new RequestTimeoutError(30000))).toBe(true);
+	});
+
+	it('does not retry client errors', () => {
+		expect(isRetryable(new HttpError(400, 'bad request'))).toBe(false);
+		expect(isRetryable(new HttpError(401, ''))).toBe(false);
+		expect(isRetryable(new HttpError(404, ''))).toBe(false);
+	});
+
+	it('retries recognized network failures only', () => {
+		expect(isRetryable(new Error('net::ERR_CONNECTION_REFUSED'))).toBe(true);
+		expect(isRetryable(new Error('connect ECONNREFUSED 127.0.0.1:11434'))).toBe(true);
+		expect(isRetryable(new TypeError('Failed to fetch'))).toBe(true);
+		expect(isRetryable(new TypeError("Cannot read properties of undefined (reading 'choices')"))).toBe(false);
+		expect(isRetryable('ECONNRESET')).toBe(false);
+	});
+
+	it('never retries aborts', () => {
+		expect(isRetryable(new AbortError())).toBe(false);
+		expect(isRetryable(new DOMException('The operation was aborted.', 'AbortError'))).toBe(false);
+	});
+});
+
+describe('withRetry', () => {
+	beforeEach(() => {
+		vi.stubGlobal('window', globalThis);
+		vi.spyOn(console, 'debug').mockImplementation(() => undefined);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+	});
+
+	it('retries retryable errors until an attempt succeeds', async () => {
+		const attempt = vi.fn<[], Promise<string>>()
+			.mockRejectedValueOnce(new HttpError(429, 'slow down', 0))
+			.mockRejectedValueOnce(new HttpError(503, 'unavailable', 0))
+			.mockResolvedValue('ok');
+
+		await expect(withRetry({ timeout: 0, maxRetries: 3 }, attempt)).resolves.toBe('ok');
+		expect(attempt).toHaveBeenCalledTimes(3);
+	});
+
+	it('throws non-retryable errors right away', async () => {
+		const error = new HttpError(400, 'bad request', 0);
+		const attempt = vi.fn<[], Promise<string>>().mockRejectedValue(error);
+
+		await expect(withRetry({ timeout: 0, maxRetries: 3 }, attempt)).rejects.toBe(error);
+		expect(attempt).toHaveBeenCalledTimes(1);
+	});
+
+	it('gives up after maxRetries retries', async () => {
+		const attempt = vi.fn<[], Promise<string>>().mockRejectedValue(new HttpError(500, '', 0));
+
+		await expect(withRetry({ timeout: 0, maxRetries: 2 }, attempt)).rejects.toBeInstanceOf(HttpError);
+		expect(attempt).toHaveBeenCalledTimes(3);
+	});
+
+	it('backs off between retries without Retry-After', async () => {
+		vi.useFakeTimers();
+		const attempt = vi.fn<[], Promise<string>>()
+			.mockRejectedValueOnce(new Error('socket hang up'))
+			.mockResolvedValue('ok');
+
+		const result = withRetry({ timeout: 0, maxRetries: 1 }, attempt);
+		await vi.advanceTimersByTimeAsync(400);
+		expect(attempt).toHaveBeenCalledTimes(1);
+
+		// The first backoff is between 500 and 1000 ms
+		await vi.advanceTimersByTimeAsync(600);
+		await expect(result).resolves.toBe('ok');
+		expect(attempt).toHaveBeenCalledTimes(2);
+	});
+
+	it('throws instead of waiting for a Retry-After over a minute', async () => {
+		const attempt = vi.fn<[], Promise<string>>().mockRejectedValue(new HttpError(429, '', 120000));
+
+		await expect(withRetry({ timeout: 0, maxRetries: 3 }, attempt)).rejects.toBeInstanceOf(HttpError);
+		expect(attempt).toHaveBeenCalledTimes(1);
+	});
+
+	it('stops waiting and retrying when the signal aborts', async () => {
+		const controller = new AbortController();
+		const attempt = vi.fn<[], Promise<string>>().mockRejectedValue(new HttpError(503, '', 5000));
+
+		const result = withRetry({ timeout: 0, maxRetries: 3, signal: controller.signal }, attempt);
+		setTimeout(() => controller.abort(), 10);
+
+		await expect(result).rejects.toBeInstanceOf(AbortError);
+		expect(attempt).toHaveBeenCalledTimes(1);
+	});
+
+	it('does not start an attempt with an aborted signal', async () => {
+		const controller = new AbortController();
+		controller.abort();
+		const attempt = vi.fn<[], Promise<string>>().mockResolvedValue('ok');
+
+		await expect(withRetry({ timeout: 0, maxRetries: 3, signal: controller.signal }, attempt))
+			.rejects.toBeInstanceOf(AbortError);
+		expect(attempt).not.toHaveBeenCalled();
+	});
+});
+
+describe('parseRetryAfter', () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('prefers retry-after-ms over retry-after', () => {
+		expect(parseRetryAfter({ 'retry-after-ms': '1500', 'retry-after': '2' })).toBe(1500);
+	});
+
+	it('reads seconds case-insensitively', () => {
+		expect(parseRetryAfter({ 'Retry-After': '2' })).toBe(2000);
+		expect(parseRetryAfter(new Headers({ 'Retry-After': '0.5' }))).toBe(500);
+	});
+
+	it('reads an HTTP date relative to now', () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+
+		expect(parseRetryAfter({ 'retry-after': 'Thu, 01 Jan 2026 00:00:30 GMT' })).toBe(30000);
+		expect(parseRetryAfter({ 'retry-after': 'Wed, 31 Dec 2025 23:59:00 GMT' })).toBe(0);
+	});
+
+	it('returns undefined for missing or invalid values', () => {
+		expect(parseRetryAfter(undefined)).toBeUndefined();
+		expect(parseRetryAfter({})).toBeUndefined();
+		expect(parseRetryAfter({ 'retry-after': 'soon' })).toBeUndefined();
+		expect(parseRetryAfter({ 'retry-after': '-1' })).toBeUndefined();
+	});
+
+	it('falls back to retry-after when retry-after-ms is invalid', () => {
+		expect(parseRetryAfter({ 'retry-after-ms': 'abc', 'retry-after': '3' })).toBe(3000);
+	});
+});
+
+describe('parseDuration', () => {
+	it('reads rate-limit reset durations', () => {
+		expect(parseDuration('2m59.56s')).toBe(179560);
+		expect(parseDuration('7.66s')).toBe(7660);
+		expect(parseDuration('120ms')).toBe(120);
+		expect(parseDuration('1h')).toBe(3600000);
+		expect(parseDuration(' 1m30s ')).toBe(90000);
+	});
+
+	it('returns undefined for missing or invalid values', () => {
+		expect(parseDuration(undefined)).toBeUndefined();
+		expect(parseDuration('')).toBeUndefined();
+		expect(parseDuration('7')).toBeUndefined();
+		expect(parseDuration('soon')).toBeUndefined();
+		expect(parseDuration('1.5 s')).toBeUndefined();
+	});
+});
+
+describe('getRetryDelay', () => {
+	it('prefers Retry-After over the rate-limit reset headers', () => {
+		expect(getRetryDelay(429, { 'retry-after': '2', 'x-ratelimit-reset-tokens': '30s' })).toBe(2000);
+	});
+
+	it('waits for the request limit when no requests are left', () => {
+		expect(getRetryDelay(429, {
+			'x-ratelimit-remaining-requests': '0',
+			'x-ratelimit-reset-requests': '2m59.56s',
+			'x-ratelimit-reset-tokens': '7.66s',
+		})).toBe(179560);
+	});
+
+	it('waits for the token limit otherwise', () => {
+		expect(getRetryDelay(429, {
+			'x-ratelimit-remaining-requests': '12',
+			'x-ratelimit-reset-requests': '2m59.56s',
+			'x-ratelimit-reset-tokens': '7.66s',
+		})).toBe(7660);
+		expect(getRetryDelay(429, new Headers({ 'x-ratelimit-reset-requests': '120ms' }))).toBe(120);
+	});
+
+	it('leaves the delay to backoff when the headers do not say', () => {
+		// Mistral reports remaining counts without reset times
+		expect(getRetryDelay(429, { 'x-ratelimit-remaining-tokens-minute': '0' })).toBeUndefined();
+		expect(getRetryDelay(429, undefined)).toBeUndefined();
+	});
+
+	it('only reads the reset headers of 429 responses', () => {
+		expect(getRetryDelay(503, { 'x-ratelimit-reset-tokens': '7.66s' })).toBeUndefined();
+		expect(getRetryDelay(503, { 'retry-after': '5' })).toBe(5000);
+	});
+});
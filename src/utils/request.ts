@@ -0,0 +1,283 @@
+import { requestUrl } from 'obsidian';
+import type { RequestUrlParam, RequestUrlResponse } from 'obsidian';
+import { AbortError } from '../errors';
+import { isAbortError, throwIfAborted, withAbort } from './abort';
+
+/**
+ * Timeout and retry policy for a request, taken from ProviderConfig
+ */
+export interface RequestPolicy {
+	timeout: number;  // Milliseconds until the response (headers) must arrive
+	maxRetries: number;  // Retries after the first attempt
+	signal?: AbortSignal;
+}
+
+/**
+ * Backoff parameters
+ */
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+/**
+ * Longest Retry-After we are willing to wait for.
+ * Beyond this the error is thrown so tier fallback can take over.
+ */
+const MAX_RETRY_AFTER_MS = 60000;
+
+/**
+ * HTTP statuses worth retrying besides 5xx server errors (incl. Anthropic's 529 overloaded)
+ * 408 timeout, 429 rate limit
+ */
+const RETRYABLE_STATUSES = new Set([408, 429]);
+
+/**
+ * Messages of network failures, where requestUrl/fetch reject without a status:
+ * Chromium net errors, Node socket errors and the TypeErrors thrown by fetch
+ */
+const NETWORK_ERROR_PATTERN = /net::ERR_|ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|EPIPE|socket hang up|failed to fetch|fetch failed|networkerror|network error|load failed/i;
+
+/**
+ * Non-2xx HTTP response
+ * The message keeps the "status NNN" format of requestUrl errors.
+ */
+export class HttpError extends Error {
+	constructor(
+		public readonly status: number,
+		public readonly body: string,
+		public readonly retryAfterMs?: number
+	) {
+		super(`Request failed, status ${status}${body ? `: ${body}` : ''}`);
+		this.name = 'HttpError';
+	}
+}
+
+/**
+ * No response within the configured timeout
+ */
+export class RequestTimeoutError extends Error {
+	constructor(public readonly timeoutMs: number) {
+		super(`Request timed out after ${timeoutMs}ms`);
+		this.name = 'RequestTimeoutError';
+	}
+}
+
+/**
+ * Send a request with timeout and retries
+ * @throws HttpError for non-2xx responses, RequestTimeoutError, AbortError or network errors
+ */
+export async function sendRequest(params: RequestUrlParam, policy: RequestPolicy): Promise<RequestUrlResponse> {
+	return withRetry(policy, async () => {
+		const response = await withTimeout(
+			withAbort(requestUrl({ ...params, throw: false }), policy.signal),
+			policy.timeout
+		);
+
+		if (response.status < 200 || response.status >= 300) {
+			throw new HttpError(
+				response.status,
+				readBody(response),
+				getRetryDelay(response.status, response.headers)
+			);
+		}
+
+		return response;
+	});
+}
+
+/**
+ * Run an attempt with exponential backoff on transient failures
+ * Honors Retry-After from HttpError and stops immediately on abort.
+ */
+export async function withRetry<T>(policy: RequestPolicy, attempt: () => Promise<T>): Promise<T> {
+	for (let attemptIndex = 0; ; attemptIndex++) {
+		throwIfAborted(policy.signal);
+
+		try {
+			return await attempt();
+		} catch (error: unknown) {
+			if (attemptIndex >= policy.maxRetries || !isRetryable(error)) {
+				throw error;
+			}
+
+			const retryAfterMs = error instanceof HttpError ? error.retryAfterMs : undefined;
+			if (retryAfterMs !== undefined && retryAfterMs > MAX_RETRY_AFTER_MS) {
+				throw error;
+			}
+
+			const delayMs = retryAfterMs ?? getBackoffDelay(attemptIndex);
+			console.debug(
+				`[LLM Connector] Retrying in ${Math.round(delayMs)}ms ` +
+				`(attempt ${attemptIndex + 2}/${policy.maxRetries + 1}):`,
+				error instanceof Error ? error.message : error
+			);
+			await sleep(delayMs, policy.signal);
+		}
+	}
+}
+
+/**
+ * Reject with RequestTimeoutError if the promise doesn't settle in time
+ * A timeout of 0 or less disables the limit.
+ */
+export async function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+	if (timeoutMs <= 0) {
+		return promise;
+	}
+
+	let timer: number | undefined;
+	const timeout = new Promise<never>((_, reject) => {
+		timer = window.setTimeout(() => reject(new RequestTimeoutError(timeoutMs)), timeoutMs);
+	});
+
+	try {
+		return await Promise.race([promise, timeout]);
+	} finally {
+		window.clearTimeout(timer);
+	}
+}
+
+/**
+ * Whether a failed attempt is worth retrying
+ * Retries 408, 429 and 5xx responses, timeouts and network failures - never aborts
+ * or anything unrecognized, which is more likely a bug than a transient problem.
+ */
+export function isRetryable(error: unknown): boolean {
+	if (isAbortError(error)) {
+		return false;
+	}
+	if (error instanceof HttpError) {
+		return RETRYABLE_STATUSES.has(error.status) || error.status >= 500;
+	}
+	if (error instanceof RequestTimeoutError) {
+		return true;
+	}
+	// Connection refused, DNS, TLS or dropped connection
+	return error instanceof Error && NETWORK_ERROR_PATTERN.test(error.message);
+}
+
+/**
+ * Parse Retry-After (seconds or HTTP date) and OpenAI's retry-after-ms
+ * @returns Delay in milliseconds, or undefined if absent/invalid
+ */
+export function parseRetryAfter(headers: Record<string, string> | Headers | undefined): number | undefined {
+	if (!headers) {
+		return undefined;
+	}
+
+	const retryAfterMs = getHeader(headers, 'retry-after-ms');
+	if (retryAfterMs !== undefined) {
+		const ms = Number(retryAfterMs);
+		if (Number.isFinite(ms) && ms >= 0) {
+			return ms;
+		}
+	}
+
+	const retryAfter = getHeader(headers, 'retry-after');
+	if (retryAfter === undefined) {
+		return undefined;
+	}
+
+	// Numbers are never dates (Date.parse reads "-1" as the year -1)
+	const seconds = Number(retryAfter);
+	if (!Number.isNaN(seconds)) {
+		return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+	}
+
+	const date = Date.parse(retryAfter);
+	if (!Number.isNaN(date)) {
+		return Math.max(0, date - Date.now());
+	}
+
+	return undefined;
+}
+
+/**
+ * Delay before retrying a failed response
+ * Retry-After wins; rate-limited responses without it fall back to the
+ * x-ratelimit-reset-* headers (OpenAI, Groq). Mistral only reports remaining
+ * counts (x-ratelimit-remaining-*), not when they reset, so its 429s rely on
+ * Retry-After and otherwise get the regular backoff.
+ * @returns Delay in milliseconds, or undefined if the headers don't say
+ */
+export function getRetryDelay(status: number, headers: Record<string, string> | Headers | undefined): number | undefined {
+	const retryAfterMs = parseRetryAfter(headers);
+	if (retryAfterMs !== undefined || status !== 429 || !headers) {
+		return retryAfterMs;
+	}
+
+	// Wait for the limit that ran out: requests if none are left, otherwise tokens
+	const requestsLeft = getHeader(headers, 'x-ratelimit-remaining-requests');
+	const requestsReset = parseDuration(getHeader(headers, 'x-ratelimit-reset-requests'));
+	const tokensReset = parseDuration(getHeader(headers, 'x-ratelimit-reset-tokens'));
+	return requestsLeft === '0' ? requestsReset ?? tokensReset : tokensReset ?? requestsReset;
+}
+
+/**
+ * Parse a duration such as "7.66s", "2m59.56s" or "120ms"
+ * @returns Milliseconds, or undefined if absent/invalid
+ */
+export function parseDuration(value: string | undefined): number | undefined {
+	if (!value || !/^(\d+(\.\d+)?(ms|h|m|s))+$/.test(value.trim())) {
+		return undefined;
+	}
+
+	const unitMs: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+	let total = 0;
+	for (const [, amount, , unit] of value.trim().matchAll(/(\d+(\.\d+)?)(ms|h|m|s)/g)) {
+		total += Number(amount) * (unitMs[unit ?? ''] ?? 0);
+	}
+	return total;
+}
+
+/**
+ * Case-insensitive header lookup
+ */
+export function getHeader(headers: Record<string, string> | Headers, name: string): string | undefined {
+	if (headers instanceof Headers) {
+		return headers.get(name) ?? undefined;
+	}
+
+	const lowerName = name.toLowerCase();
+	for (const [key, value] of Object.entries(headers)) {
+		if (key.toLowerCase() === lowerName) {
+			return value;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Exponential backoff with jitter: half fixed, half random
+ */
+function getBackoffDelay(attemptIndex: number): number {
+	const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * Math.pow(2, attemptIndex));
+	return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+/**
+ * Wait for a delay, waking up early with AbortError if the signal fires
+ */
+function sleep(delayMs: number, signal?: AbortSignal): Promise<void> {
+	return new Promise<void>((resolve, reject) => {
+		const onAbort = (): void => {
+			window.clearTimeout(timer);
+			reject(new AbortError());
+		};
+		const timer = window.setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, delayMs);
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
+
+/**
+ * Read a response body as text without throwing
+ */
+function readBody(response: RequestUrlResponse): string {
+	try {
+		return response.text;
+	} catch {
+		return '';
+	}
+}
@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseServerSentEvents, readLines, streamRequest } from './streaming';
+import type { ServerSentEvent } from './streaming';
+
+/**
+ * Byte stream that delivers the given text chunks as separate reads
+ */
+function createBody(chunks: Array<string | Uint8Array>, onCancel?: () => void): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder();
+	let index = 0;
+	return new ReadableStream<Uint8Array>({
+		pull(controller) {
+			const chunk = chunks[index++];
+			if (chunk === undefined) {
+				controller.close();
+				return;
+			}
+			controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+		},
+		cancel() {
+			onCancel?.();
+		},
+	});
+}
+
+async function collect<T>(items: AsyncGenerator<T, void, unknown>): Promise<T[]> {
+	const result: T[] = [];
+	for await (const item of items) {
+		result.push(item);
+	}
+	return result;
+}
+
+function parseEvents(chunks: string[]): Promise<ServerSentEvent[]> {
+	return collect(parseServerSentEvents(readLines(createBody(chunks))));
+}
+
+describe('readLines', () => {
+	it('reassembles lines split across chunks and strips CR', async () => {
+		const lines = await collect(readLines(createBody(['first li', 'ne\r\nsecond\n', '\nthi', 'rd'])));
+
+		expect(lines).toEqual(['first line', 'second', '', 'third']);
+	});
+
+	it('decodes multi-byte characters split across chunks', async () => {
+		const bytes = new TextEncoder().encode('héllo\n');
+
+		const lines = await collect(readLines(createBody([bytes.slice(0, 2), bytes.slice(2)])));
+
+		expect(lines).toEqual(['héllo']);
+	});
+
+	it('cancels the underlying stream when the consumer stops early', async () => {
+		const onCancel = vi.fn();
+
+		for await (const line of readLines(createBody(['one\ntwo\n', 'three\n'], onCancel))) {
+			expect(line).toBe('one');
+			break;
+		}
+
+		expect(onCancel).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('parseServerSentEvents', () => {
+	it('dispatches an event per blank line', async () => {
+		const events = await parseEvents([
+			'data: {"a":1}\n\n',
+			'data: {"a":2}\n\n',
+			'data: [DONE]\n\n',
+		]);
+
+		expect(events).toEqual([
+			{ event: undefined, data: '{"a":1}' },
+			{ event: undefined, data: '{"a":2}' },
+			{ event: undefined, data: '[DONE]' },
+		]);
+	});
+
+	it('keeps event names and resets them after each event', async () => {
+		const events = await parseEvents([
+			'event: message_start\ndata: {"type":"message_start"}\n\n',
+			'data: {"type":"ping"}\n\n',
+		]);
+
+		expect(events).toEqual([
+			{ event: 'message_start', data: '{"type":"message_start"}' },
+			{ event: undefined, data: '{"type":"ping"}' },
+		]);
+	});
+
+	it('joins multi-line data with newlines', async () => {
+		const events = await parseEvents(['data: first\ndata: second\n\n']);
+
+		expect(events).toEqual([{ event: undefined, data: 'first\nsecond' }]);
+	});
+
+	it('ignores comments and unknown fields', async () => {
+		const events = await parseEvents([
+			': OPENROUTER PROCESSING\n\n',
+			'id: 7\nretry: 1000\ndata: hello\n\n',
+		]);
+
+		expect(events).toEqual([{ event: undefined, data: 'hello' }]);
+	});
+
+	it('strips only one leading space from values', async () => {
+		const events = await parseEvents(['data:no-space\n\n', 'data:  two spaces\n\n']);
+
+		expect(events.map(event => event.data)).toEqual(['no-space', ' two spaces']);
+	});
+
+	it('handles events split across chunks and CRLF line endings', async () => {
+		const events = await parseEvents(['event: delta\r\nda', 'ta: {"text":"Hel', 'lo"}\r\n', '\r\n']);
+
+		expect(events).toEqual([{ event: 'delta', data: '{"text":"Hello"}' }]);
+	});
+
+	it('emits a final event without a trailing blank line', async () => {
+		const events = await parseEvents(['data: one\n\n', 'data: last']);
+
+		expect(events.map(event => event.data)).toEqual(['one', 'last']);
+	});
+});
+
+describe('streamRequest', () => {
+	const fetchMock = vi.fn<[string, RequestInit], Promise<Response>>();
+
+	beforeEach(() => {
+		vi.stubGlobal('window', globalThis);
+		vi.stubGlobal('fetch', fetchMock);
+		vi.spyOn(console, 'debug').mockImplementation(() => undefined);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+		fetchMock.mockReset();
+	});
+
+	/**
+	 * Number of abort listeners added to the signal and not removed again
+	 */
+	function countListeners(signal: AbortSignal): () => number {
+		const added = vi.spyOn(signal, 'addEventListener');
+		const removed = vi.spyOn(signal, 'removeEventListener');
+		return () => added.mock.calls
+			.filter(([, listener]) => !removed.mock.calls.some(([, removedListener]) => removedListener === listener))
+			.length;
+	}
+
+	it('removes the abort listener of failed attempts and of a finished body', async () => {
+		const controller = new AbortController();
+		const listeners = countListeners(controller.signal);
+		fetchMock
+			.mockResolvedValueOnce(new Response('overloaded', { status: 503, headers: { 'retry-after': '0' } }))
+			.mockResolvedValueOnce(new Response(createBody(['data: hi\n\n']), { status: 200 }));
+
+		const response = await streamRequest({ url: 'https://example.com' }, {
+			timeout: 0,
+			maxRetries: 1,
+			signal: controller.signal,
+		});
+		// Only the successful attempt still listens, while its body is read
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		expect(listeners()).toBe(1);
+
+		const lines = await collect(readLines(response.body as ReadableStream<Uint8Array>));
+
+		expect(lines).toEqual(['data: hi', '']);
+		expect(listeners()).toBe(0);
+	});
+
+	it('removes the abort listener when the consumer stops reading early', async () => {
+		const controller = new AbortController();
+		const listeners = countListeners(controller.signal);
+		fetchMock.mockResolvedValue(new Response(createBody(['one\n', 'two\n']), { status: 200 }));
+
+		const response = await streamRequest({ url: 'https://example.com' }, {
+			timeout: 0,
+			maxRetries: 0,
+			signal: controller.signal,
+		});
+		for await (const line of readLines(response.body as ReadableStream<Uint8Array>)) {
+			expect(line).toBe('one');
+			break;
+		}
+
+		expect(listeners()).toBe(0);
+	});
+
+	it('aborts the request while the body is being read', async () => {
+		const controller = new AbortController();
+		fetchMock.mockResolvedValue(new Response(createBody(['one\n', 'two\n']), { status: 200 }));
+
+		await streamRequest({ url: 'https://example.com' }, { timeout: 0, maxRetries: 0, signal: controller.signal });
+		controller.abort();
+
+		expect(fetchMock.mock.calls[0]?.[1].signal?.aborted).toBe(true);
+	});
+});
@@ -0,0 +1,209 @@
+import { HttpError, getRetryDelay, withRetry, withTimeout } from './request';
+import type { RequestPolicy } from './request';
+
+/**
+ * Helpers for streaming HTTP responses
+ * Obsidian's requestUrl buffers the whole response, so streaming requests go through fetch.
+ */
+
+/**
+ * Parameters for a streaming request
+ */
+export interface StreamRequestParams {
+	url: string;
+	method?: string;
+	headers?: Record<string, string>;
+	body?: string;
+}
+
+/**
+ * A single server-sent event
+ */
+export interface ServerSentEvent {
+	event?: string;
+	data: string;
+}
+
+/**
+ * Send a request and return the response for incremental reading
+ * The policy timeout applies until the response headers arrive; transient
+ * failures are retried before any body is read. policy.signal also aborts
+ * a body that is being read.
+ * @throws HttpError if the response is not ok
+ */
+export async function streamRequest(params: StreamRequestParams, policy: RequestPolicy): Promise<Response> {
+	return withRetry(policy, async () => {
+		const controller = new AbortController();
+		const onAbort = (): void => controller.abort();
+		const removeAbortListener = (): void => policy.signal?.removeEventListener('abort', onAbort);
+		policy.signal?.addEventListener('abort', onAbort, { once: true });
+
+		let streaming = false;
+		try {
+			let response: Response;
+			try {
+				response = await withTimeout(
+					// eslint-disable-next-line no-restricted-globals -- requestUrl cannot stream response bodies
+					fetch(params.url, {
+						method: params.method ?? 'POST',
+						headers: params.headers,
+						body: params.body,
+						signal: controller.signal,
+					}),
+					policy.timeout
+				);
+			} catch (error: unknown) {
+				// Stop a request that timed out
+				controller.abort();
+				throw error;
+			}
+
+			if (!response.ok) {
+				let detail = '';
+				try {
+					detail = await response.text();
+				} catch {
+					// Body unavailable - status is enough
+				}
+				throw new HttpError(response.status, detail, getRetryDelay(response.status, response.headers));
+			}
+
+			if (!response.body) {
+				throw new Error('Response has no body to stream');
+			}
+
+			// The signal keeps aborting the body until it has been read
+			streaming = true;
+			return new Response(onBodyDone(response.body, removeAbortListener), {
+				status: response.status,
+				statusText: response.statusText,
+				headers: response.headers,
+			});
+		} finally {
+			// Failed attempts let go of the signal right away, so retries and
+			// long-lived signals (conversations, agent runs) don't collect listeners
+			if (!streaming) {
+				removeAbortListener();
+			}
+		}
+	});
+}
+
+/**
+ * Pass a body through, calling onDone once it has been read to the end,
+ * has failed or has been cancelled
+ */
+function onBodyDone(body: ReadableStream<Uint8Array>, onDone: () => void): ReadableStream<Uint8Array> {
+	const reader = body.getReader();
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			try {
+				const { done, value } = await reader.read();
+				if (done) {
+					onDone();
+					controller.close();
+				} else {
+					controller.enqueue(value);
+				}
+			} catch (error: unknown) {
+				onDone();
+				controller.error(error);
+			}
+		},
+		async cancel(reason: unknown) {
+			onDone();
+			await reader.cancel(reason);
+		},
+	});
+}
+
+/**
+ * Read a byte stream as text lines
+ * Lines split across network chunks are reassembled; the trailing
+ * partial line is emitted when the stream ends.
+ * The underlying stream is cancelled if the consumer stops early.
+ */
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string, void, unknown> {
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = '';
+	let finished = false;
+
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) {
+				finished = true;
+				break;
+			}
+
+			buffer += decoder.decode(value, { stream: true });
+
+			let newlineIndex = buffer.indexOf('\n');
+			while (newlineIndex !== -1) {
+				const line = buffer.slice(0, newlineIndex).replace(/\r$/, '');
+				buffer = buffer.slice(newlineIndex + 1);
+				yield line;
+				newlineIndex = buffer.indexOf('\n');
+			}
+		}
+
+		buffer += decoder.decode();
+		if (buffer.length > 0) {
+			yield buffer.replace(/\r$/, '');
+		}
+	} finally {
+		if (!finished) {
+			// Consumer stopped iterating - abort the underlying request
+			await reader.cancel().catch(() => {
+				// Already closed
+			});
+		}
+		reader.releaseLock();
+	}
+}
+
+/**
+ * Parse text/event-stream lines into events
+ * Comment lines (":") are ignored; multi-line data fields are joined with "\n".
+ */
+export async function* parseServerSentEvents(
+	lines: AsyncGenerator<string, void, unknown>
+): AsyncGenerator<ServerSentEvent, void, unknown> {
+	let event: string | undefined;
+	let data: string[] = [];
+
+	for await (const line of lines) {
+		if (line === '') {
+			// Blank line dispatches the event
+			if (data.length > 0) {
+				yield { event, data: data.join('\n') };
+			}
+			event = undefined;
+			data = [];
+			continue;
+		}
+
+		if (line.startsWith(':')) {
+			continue;
+		}
+
+		const colonIndex = line.indexOf(':');
+		const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+		let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+		if (value.startsWith(' ')) {
+			value = value.slice(1);
+		}
+
+		if (field === 'event') {
+			event = value;
+		} else if (field === 'data') {
+			data.push(value);
+		}
+	}
+
+	// Stream ended without a trailing blank line
+	if (data.length > 0) {
+		yield { event, data: data.join('\n') };
+	}
+}
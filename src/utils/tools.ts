@@ -0,0 +1,191 @@
+import { InvalidRequestError, ProviderError } from '../errors';
+import type { LLMErrorDetails } from '../errors';
+import type { CompletionOptions, JsonSchema, ToolCall, ToolChoice, ToolDefinition } from '../types';
+
+/**
+ * Helpers for tool calling
+ * The OpenAI wire format is shared by OpenAI and OpenRouter; Ollama uses the same tool definitions.
+ */
+
+/**
+ * Tool names accepted by all supported providers
+ */
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * OpenAI tool definition
+ */
+export interface OpenAITool {
+	type: 'function';
+	function: {
+		name: string;
+		description?: string;
+		parameters: JsonSchema;
+	};
+}
+
+/**
+ * OpenAI tool_choice values
+ */
+export type OpenAIToolChoice = 'auto' | 'none' | 'required' | { type: 'function'; function: { name: string } };
+
+/**
+ * Tool call in an OpenAI response (arguments are a JSON string)
+ */
+export interface OpenAIToolCall {
+	id: string;
+	type: 'function';
+	function: {
+		name: string;
+		arguments: string;
+	};
+}
+
+/**
+ * Partial tool call in an OpenAI stream chunk
+ * The first delta for an index carries id and name; arguments arrive in pieces.
+ */
+export interface OpenAIToolCallDelta {
+	index: number;
+	id?: string;
+	type?: 'function';
+	function?: {
+		name?: string;
+		arguments?: string;
+	};
+}
+
+/**
+ * Check tool definitions, tool choice and tool messages of a request
+ * @throws InvalidRequestError if they are inconsistent
+ */
+export function validateTools(options: CompletionOptions): void {
+	const names = new Set<string>();
+	for (const tool of options.tools ?? []) {
+		if (!TOOL_NAME_PATTERN.test(tool.name)) {
+			throw new InvalidRequestError(
+				`Invalid tool name "${tool.name}": use up to 64 letters, digits, underscores or hyphens`
+			);
+		}
+		if (names.has(tool.name)) {
+			throw new InvalidRequestError(`Duplicate tool name "${tool.name}"`);
+		}
+		names.add(tool.name);
+	}
+
+	const choice = options.toolChoice;
+	if (choice && choice !== 'none' && choice !== 'auto' && names.size === 0) {
+		throw new InvalidRequestError('toolChoice requires tools');
+	}
+	if (typeof choice === 'object' && !names.has(choice.name)) {
+		throw new InvalidRequestError(`toolChoice names unknown tool "${choice.name}"`);
+	}
+
+	for (const message of options.messages ?? []) {
+		if (message.role === 'tool' && !message.toolCallId) {
+			throw new InvalidRequestError('Tool messages need the toolCallId of the call they answer');
+		}
+	}
+}
+
+/**
+ * Whether a request lets the model call tools
+ */
+export function usesTools(options: CompletionOptions): boolean {
+	return !!options.tools?.length && options.toolChoice !== 'none';
+}
+
+/**
+ * JSON schema of a tool's arguments
+ * Providers require an object schema, so tools without parameters get an empty one.
+ */
+export function getToolParameters(tool: ToolDefinition): JsonSchema {
+	return tool.parameters ?? { type: 'object', properties: {} };
+}
+
+/**
+ * Convert tool definitions to the OpenAI format
+ */
+export function toOpenAITools(tools: ToolDefinition[]): OpenAITool[] {
+	return tools.map(tool => ({
+		type: 'function',
+		function: {
+			name: tool.name,
+			...(tool.description && { description: tool.description }),
+			parameters: getToolParameters(tool),
+		},
+	}));
+}
+
+/**
+ * Convert a tool choice to the OpenAI format
+ */
+export function toOpenAIToolChoice(choice: ToolChoice): OpenAIToolChoice {
+	return typeof choice === 'string' ? choice : { type: 'function', function: { name: choice.name } };
+}
+
+/**
+ * Convert tool calls of an assistant turn to the OpenAI format
+ */
+export function toOpenAIToolCalls(calls: ToolCall[]): OpenAIToolCall[] {
+	return calls.map(call => ({
+		id: call.id,
+		type: 'function',
+		function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+	}));
+}
+
+/**
+ * Convert tool calls from an OpenAI response
+ * @throws ProviderError if the model returned arguments that aren't a JSON object
+ */
+export function fromOpenAIToolCalls(calls: OpenAIToolCall[], details: LLMErrorDetails): ToolCall[] {
+	return calls.map(call => ({
+		id: call.id,
+		name: call.function.name,
+		arguments: parseToolArguments(call.function.name, call.function.arguments, details),
+	}));
+}
+
+/**
+ * Merge streamed tool call deltas into complete calls (by index)
+ */
+export function mergeToolCallDeltas(calls: OpenAIToolCall[], deltas: OpenAIToolCallDelta[]): void {
+	for (const delta of deltas) {
+		const call = calls[delta.index] ?? { id: '', type: 'function', function: { name: '', arguments: '' } };
+		calls[delta.index] = call;
+
+		if (delta.id) {
+			call.id = delta.id;
+		}
+		if (delta.function?.name) {
+			call.function.name += delta.function.name;
+		}
+		if (delta.function?.arguments) {
+			call.function.arguments += delta.function.arguments;
+		}
+	}
+}
+
+/**
+ * Parse the JSON arguments of a tool call
+ * An empty string means no arguments.
+ * @throws ProviderError if the arguments aren't a JSON object
+ */
+export function parseToolArguments(name: string, json: string, details: LLMErrorDetails): Record<string, unknown> {
+	if (json.trim() === '') {
+		return {};
+	}
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(json);
+	} catch (error: unknown) {
+		throw new ProviderError(`Model returned invalid JSON arguments for tool "${name}"`, { ...details, cause: error });
+	}
+
+	if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+		throw new ProviderError(`Model returned non-object arguments for tool "${name}"`, details);
+	}
+	return parsed as Record<string, unknown>;
+}
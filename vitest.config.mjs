@@ -0,0 +1,11 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+	resolve: {
+		alias: {
+			// The obsidian package has type definitions only
+			obsidian: fileURLToPath(new URL('./src/__mocks__/obsidian.ts', import.meta.url)),
+		},
+	},
+});